@@ -0,0 +1,39 @@
+// Component scene: default-export a component; `name` overrides the file name in reports.
+export const name = "event-banner";
+
+interface Props {
+  width: number;
+  height: number;
+  scale: number;
+  fontFamily: string;
+  images: { background: string; avatar: string; badge: string };
+}
+
+export default function EventBanner({ width, height, scale, fontFamily, images }: Props) {
+  const px = (value: number) => Math.round(value * scale);
+
+  return (
+    <div
+      style={{
+        width,
+        height,
+        display: "flex",
+        alignItems: "center",
+        padding: px(64),
+        gap: px(48),
+        fontFamily,
+        color: "#ffffff",
+        backgroundImage: "linear-gradient(135deg, #1e1b4b 0%, #4c1d95 100%)",
+      }}
+    >
+      <img src={images.badge} width={px(240)} height={px(240)} style={{ width: px(240), height: px(240), borderRadius: px(48) }} />
+      <div style={{ display: "flex", flexDirection: "column", gap: px(16) }}>
+        <div style={{ display: "flex", fontSize: px(28), fontWeight: 600, color: "#c4b5fd" }}>SAT 14 NOV · 20:00 UTC</div>
+        <div style={{ display: "flex", fontSize: px(72), fontWeight: 600 }}>Community Game Night</div>
+        <div style={{ display: "flex", fontSize: px(32), fontWeight: 400, color: "#ddd6fe" }}>
+          Bring a friend, join the voice channel and climb the leaderboard.
+        </div>
+      </div>
+    </div>
+  );
+}
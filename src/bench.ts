@@ -1,215 +1,643 @@
 import { mkdir, writeFile } from "node:fs/promises";
 import os from "node:os";
-import { join } from "node:path";
+import { dirname, join, relative, resolve } from "node:path";
 import process from "node:process";
 import { parseArgs } from "node:util";
-import { createBenchContext } from "./context.js";
-import { benchRenderers } from "./renderers/index.js";
-import type { BenchCaseSkip, BenchCaseStats, BenchTaskName, TaskOutput } from "./types.js";
-import { UnsupportedTaskError, formatMb, mean, percentile } from "./utils.js";
-
-const ALL_TASKS: BenchTaskName[] = [
-  "image-buffer",
-  "image-stream",
-  "kitchen-sink",
-  "text-layout",
-  "encode-png",
-  "encode-webp",
-  "encode-svg",
-];
-
-interface CliOptions {
+import {
+  cliArgs,
+  parseDuration,
+  parseInteger,
+  parseIntegerList,
+  parseDevicePixelRatios,
+  matchesNamePattern,
+  parseFontSpecs,
+  resolveFontSpecPath,
+  parseNumber,
+  parseSizes,
+  parseTasks,
+  selectRenderers,
+} from "./cli.js";
+import {
+  type BenchConfig,
+  type BenchConfigValue,
+  type ConfigPathResolver,
+  type FlagSpec,
+  type FlagValues,
+  type LoadedBenchConfig,
+  applyNegatedFlags,
+  loadBenchConfig,
+  negatedFlags,
+} from "./config.js";
+import { type BenchComparison, buildComparisonMarkdown, compareWithBaseline, loadBaselineReport } from "./compare.js";
+import { DEFAULT_COMPLEXITY_LEVELS, buildComplexityMarkdown } from "./complexity.js";
+import {
+  type BenchAssetOptions,
+  type BenchEncodeOptions,
+  DEFAULT_OUTPUT_SIZE,
+  createBenchContext,
+  defaultFonts,
+  withOutputSize,
+} from "./context.js";
+import { DEFAULT_HISTORY_PATH, type HistoryRun, appendHistoryEntry, createHistoryEntry } from "./history.js";
+import { ISOLATION_MODES, type IsolationMode, runIsolated } from "./isolation.js";
+import { buildResolutionMarkdown } from "./resolution.js";
+import { isAdaptive, prepareRenderer, runCaseOutcome } from "./runner.js";
+import { type SceneProbeResult, buildSceneProbeMarkdown, runSceneProbes } from "./sceneProbes.js";
+import { buildSoakChartSvg } from "./soak.js";
+import { type TextLayoutRecord, buildTextLayoutMarkdown } from "./textLayout.js";
+import type {
+  BenchCaseFailure,
+  BenchCaseOutcome,
+  BenchFont,
+  BenchCaseSkip,
+  BenchCaseStats,
+  BenchRenderer,
+  BenchTaskName,
+  OutputSize,
+  RendererPrepareStats,
+  SamplingOptions,
+  SoakOptions,
+  SoakStats,
+  ThroughputStats,
+} from "./types.js";
+import { type UserScene, checkUserSceneFonts, loadUserScenes, userSceneName, userSceneTask } from "./userScene.js";
+import { formatSize, mean, physicalSize, round, toSafeFileName } from "./utils.js";
+import { SSIM_MISMATCH_THRESHOLD, type VisualDiffResult, buildVisualDiffMarkdown, runVisualDiff } from "./visualDiff.js";
+import { rendererEntries } from "./workerPool.js";
+
+const DEFAULT_ADAPTIVE_BUDGET_MS = 30_000;
+const DEFAULT_MEMORY_SAMPLE_INTERVAL_MS = 5;
+
+interface CliOptions extends SamplingOptions {
   tasks: BenchTaskName[];
-  iterations: number;
-  warmup: number;
-  saveImages: boolean;
+  /** Fixtures, fonts, text samples and `--scene` files every context is built from. */
+  assets: BenchAssetOptions & Required<Pick<BenchAssetOptions, "fixturesDir" | "fonts">>;
+  /** Scenes the `--scene` files define; each adds a `scene:<name>` task. */
+  scenes: UserScene[];
+  encode: BenchEncodeOptions;
+  /** `--renderer` patterns; null runs every renderer. */
+  renderers: string[] | null;
+  /** `--exclude-renderer` patterns, applied after `renderers`. */
+  excludeRenderers: string[];
+  /** Config file and profile the options were resolved from. */
+  config: Pick<LoadedBenchConfig, "path" | "profile">;
+  /** Output sizes (each size at each `--dpr`); every task runs at each of them. */
+  sizes: OutputSize[];
+  isolation: IsolationMode;
+  /** Worker-pool sizes; each adds a pooled variant of every renderer. */
+  workerPools: number[];
+  comparePath: string | null;
+  /** Fractional avg-latency increase that counts as a regression when comparing. */
+  regressionThreshold: number;
   saveDir: string;
+  /** Directory for soak memory charts; null when charts are disabled. */
+  soakChartDir: string | null;
+  /** Append-only JSONL run log; null disables recording. */
+  historyPath: string | null;
+  /** Directory for visual-diff heatmaps; null when the visual diff is disabled. */
+  visualDiffDir: string | null;
+  /** `--diff-reference` pattern; null compares against the first active renderer. */
+  diffReference: string | null;
+  /** Whether to probe kitchen-sink outputs for the scene's landmarks. */
+  sceneProbes: boolean;
   reportJsonPath: string;
   reportMarkdownPath: string;
 }
 
+/** Renderers a run selected and those `--renderer`/`--exclude-renderer` left out. */
+interface RendererSelection {
+  active: string[];
+  excluded: string[];
+}
+
+interface SoakRecord {
+  renderer: string;
+  task: BenchTaskName;
+  soak: SoakStats;
+  chartPath: string | null;
+}
+
 interface SavedImageRecord {
   renderer: string;
   task: BenchTaskName;
+  size: OutputSize;
   format: "png" | "webp" | "svg";
   path: string;
 }
 
-function parseInteger(value: string | undefined, fallback: number, label: string): number {
+function parseIsolation(value: string | undefined): IsolationMode {
   if (value === undefined) {
-    return fallback;
+    return "none";
   }
 
-  const parsed = Number.parseInt(value, 10);
-
-  if (!Number.isFinite(parsed) || parsed <= 0) {
-    throw new Error(`${label} must be a positive integer`);
+  if (!ISOLATION_MODES.includes(value as IsolationMode)) {
+    throw new Error(`--isolate must be one of: ${ISOLATION_MODES.join(", ")}`);
   }
 
-  return parsed;
+  return value as IsolationMode;
 }
 
-function parseTasks(value: string | string[] | undefined): BenchTaskName[] {
+/**
+ * `--soak 20000` runs that many renders per case; a value with a unit (`--soak 10m`) runs
+ * each case for that long.
+ */
+function parseSoak(
+  value: string | undefined,
+  interval: string | undefined,
+  threshold: string | undefined,
+): SoakOptions | null {
   if (value === undefined) {
-    return ALL_TASKS;
+    return null;
   }
 
-  const requested = (Array.isArray(value) ? value : [value])
-    .flatMap((item) => item.split(","))
-    .map((item) => item.trim())
-    .filter(Boolean);
+  const byIterations = /^\d+$/.test(value.trim());
 
-  if (requested.length === 0) {
-    throw new Error("--workload requires at least one task name");
-  }
+  return {
+    iterations: byIterations ? parseInteger(value.trim(), 0, "soak") : null,
+    durationMs: byIterations ? null : parseDuration(value, "soak"),
+    sampleIntervalMs: parseDuration(interval, "soak-interval") ?? 1_000,
+    thresholdMbPer1k: parseNumber(threshold, 1, "soak-threshold"),
+  };
+}
+
+function toSamplingOptions(options: CliOptions): SamplingOptions {
+  return {
+    iterations: options.iterations,
+    warmup: options.warmup,
+    maxCv: options.maxCv,
+    targetCi: options.targetCi,
+    maxTimeMs: options.maxTimeMs,
+    concurrency: options.concurrency,
+    soak: options.soak,
+    memorySampleIntervalMs: options.memorySampleIntervalMs,
+    saveImages: options.saveImages,
+  };
+}
+
+const CLI_FLAGS = {
+  config: { type: "string" },
+  profile: { type: "string" },
+  workload: { type: "string", multiple: true },
+  complexity: { type: "string" },
+  scene: { type: "string", multiple: true },
+  fixtures: { type: "string" },
+  font: { type: "string", multiple: true },
+  "font-family": { type: "string" },
+  "text-samples": { type: "string" },
+  sizes: { type: "string" },
+  dpr: { type: "string" },
+  iterations: { type: "string" },
+  warmup: { type: "string" },
+  "max-cv": { type: "string" },
+  "target-ci": { type: "string" },
+  "max-time": { type: "string" },
+  isolate: { type: "string" },
+  concurrency: { type: "string" },
+  "worker-pool": { type: "string" },
+  soak: { type: "string" },
+  "soak-interval": { type: "string" },
+  "soak-threshold": { type: "string" },
+  "soak-chart": { type: "boolean" },
+  "soak-chart-dir": { type: "string" },
+  "memory-interval": { type: "string" },
+  compare: { type: "string" },
+  "regression-threshold": { type: "string" },
+  "save-images": { type: "boolean" },
+  "save-dir": { type: "string" },
+  "history-file": { type: "string" },
+  "skip-history": { type: "boolean" },
+  "webp-quality": { type: "string" },
+  renderer: { type: "string", multiple: true },
+  "exclude-renderer": { type: "string", multiple: true },
+  "visual-diff": { type: "boolean" },
+  "visual-diff-dir": { type: "string" },
+  "diff-reference": { type: "string" },
+  probes: { type: "boolean" },
+  "report-json": { type: "string" },
+  "report-markdown": { type: "string" },
+} as const;
+
+/** Flags that take paths; in a config they are relative to the config file. */
+const CONFIG_PATH_FLAGS: Partial<Record<keyof typeof CLI_FLAGS, ConfigPathResolver>> = {
+  scene: resolve,
+  fixtures: resolve,
+  font: resolveFontSpecPath,
+  "text-samples": resolve,
+  "soak-chart-dir": resolve,
+  compare: resolve,
+  "save-dir": resolve,
+  "history-file": resolve,
+  "visual-diff-dir": resolve,
+  "report-json": resolve,
+  "report-markdown": resolve,
+};
+
+/** `BENCH_*` variables that stand in for a flag; list flags take comma-separated values. */
+const FLAG_ENV: Partial<Record<keyof typeof CLI_FLAGS, string>> = {
+  profile: "BENCH_PROFILE",
+  complexity: "BENCH_COMPLEXITY",
+  scene: "BENCH_SCENE",
+  fixtures: "BENCH_FIXTURES",
+  font: "BENCH_FONTS",
+  "font-family": "BENCH_FONT_FAMILY",
+  "text-samples": "BENCH_TEXT_SAMPLES",
+  sizes: "BENCH_SIZES",
+  dpr: "BENCH_DPR",
+  iterations: "BENCH_ITERATIONS",
+  warmup: "BENCH_WARMUP",
+  "max-cv": "BENCH_MAX_CV",
+  "target-ci": "BENCH_TARGET_CI",
+  "max-time": "BENCH_MAX_TIME",
+  isolate: "BENCH_ISOLATE",
+  concurrency: "BENCH_CONCURRENCY",
+  "worker-pool": "BENCH_WORKER_POOL",
+  soak: "BENCH_SOAK",
+  "soak-interval": "BENCH_SOAK_INTERVAL",
+  "soak-threshold": "BENCH_SOAK_THRESHOLD",
+  "memory-interval": "BENCH_MEMORY_INTERVAL",
+  "regression-threshold": "BENCH_REGRESSION_THRESHOLD",
+  "webp-quality": "BENCH_WEBP_QUALITY",
+  renderer: "BENCH_RENDERER",
+  "exclude-renderer": "BENCH_EXCLUDE_RENDERER",
+  "diff-reference": "BENCH_DIFF_REFERENCE",
+};
+
+function envFlagValues(): FlagValues {
+  const values: FlagValues = {};
 
-  const invalid = requested.filter((item) => !ALL_TASKS.includes(item as BenchTaskName));
-  if (invalid.length > 0) {
-    throw new Error(`Unknown workload(s): ${invalid.join(", ")}`);
+  for (const [flag, name] of Object.entries(FLAG_ENV)) {
+    const value = process.env[name];
+
+    if (value !== undefined) {
+      values[flag] = (CLI_FLAGS[flag as keyof typeof CLI_FLAGS] as FlagSpec).multiple ? value.split(",") : value;
+    }
   }
 
-  return requested as BenchTaskName[];
+  return values;
 }
 
-function parseCliOptions(): CliOptions {
-  const rawArgs = process.argv.slice(2);
-  const args = rawArgs.filter((arg) => arg !== "--");
-  const { values } = parseArgs({
-    args,
-    options: {
-      workload: { type: "string", multiple: true },
-      iterations: { type: "string" },
-      warmup: { type: "string" },
-      "save-images": { type: "boolean", default: false },
-      "save-dir": { type: "string" },
-    },
+/**
+ * Flags win over `BENCH_*` variables, which win over the selected profile, which wins over
+ * the config file's top-level options.
+ */
+async function parseCliOptions(): Promise<CliOptions> {
+  const { values: parsedValues } = parseArgs({
+    args: cliArgs(),
+    options: { ...CLI_FLAGS, ...negatedFlags(CLI_FLAGS) },
     strict: true,
     allowPositionals: false,
   });
+  const cliValues = applyNegatedFlags(parsedValues);
+  const env = envFlagValues();
+  const config = await loadBenchConfig(
+    cliValues.config ?? process.env.BENCH_CONFIG,
+    cliValues.profile ?? (env.profile as string | undefined),
+    CLI_FLAGS,
+    CONFIG_PATH_FLAGS,
+  );
+  const values = { ...config.values, ...env, ...cliValues } as typeof cliValues;
 
   const saveDirArg = values["save-dir"];
-  const saveImages = values["save-images"] || saveDirArg !== undefined;
+  const soakChartDirArg = values["soak-chart-dir"];
+  const visualDiffDirArg = values["visual-diff-dir"];
+  // A directory flag implies the switch it belongs to, as `--save-dir` does `--save-images`.
+  const visualDiff = values["visual-diff"] === true || visualDiffDirArg !== undefined;
+  const sceneProbes = values.probes === true;
+  // The visual diff and the probes read the saved samples, so they need them on disk.
+  const saveImages = values["save-images"] === true || saveDirArg !== undefined || visualDiff || sceneProbes;
+
+  const targetCiArg = values["target-ci"];
+  const targetCi = targetCiArg === undefined ? null : parseNumber(targetCiArg, 0, "target-ci");
+  const maxTimeMs = parseDuration(values["max-time"], "max-time");
+  const memoryIntervalArg = values["memory-interval"];
+  const complexityLevels = parseIntegerList(values.complexity, "complexity");
+  const scenePaths = (values.scene ?? [])
+    .map((path) => path.trim())
+    .filter(Boolean)
+    .map((path) => resolve(path));
+  const scenes = await loadUserScenes(scenePaths);
+  const fontFamily = values["font-family"];
+  const fonts = parseFontSpecs(values.font, fontFamily) ?? defaultFonts();
+  checkUserSceneFonts(scenes, fonts);
+  const webpQuality = values["webp-quality"] === undefined ? undefined : parseInteger(values["webp-quality"], 0, "webp-quality");
+
+  if (webpQuality !== undefined && webpQuality > 100) {
+    throw new Error("webp-quality must be between 1 and 100");
+  }
 
   return {
-    tasks: parseTasks(values.workload),
-    warmup: parseInteger(values.warmup ?? process.env.BENCH_WARMUP, 3, "warmup"),
-    iterations: parseInteger(values.iterations ?? process.env.BENCH_ITERATIONS, 12, "iterations"),
+    // `--complexity` and `--scene` on their own replace the default workloads; with `--workload`
+    // the complexity levels only configure `complexity` and scenes are added to the selection.
+    tasks: [
+      ...(values.workload === undefined && !complexityLevels && scenes.length > 0
+        ? []
+        : parseTasks(
+            values.workload ?? (complexityLevels ? "complexity" : undefined),
+            complexityLevels ?? DEFAULT_COMPLEXITY_LEVELS,
+          )),
+      ...scenes.map((scene) => userSceneTask(scene.name)),
+    ],
+    assets: {
+      fixturesDir: resolve(values.fixtures ?? "fixtures"),
+      fonts,
+      fontFamily,
+      textSamplesPath: values["text-samples"] === undefined ? undefined : resolve(values["text-samples"]),
+      scenePaths,
+    },
+    scenes,
+    encode: { webpQuality },
+    renderers: values.renderer ?? null,
+    excludeRenderers: values["exclude-renderer"] ?? [],
+    config: { path: config.path, profile: config.profile },
+    sizes: parseSizes(values.sizes, [DEFAULT_OUTPUT_SIZE]).flatMap((size) =>
+      parseDevicePixelRatios(values.dpr).map((dpr) => ({ ...size, dpr })),
+    ),
+    isolation: parseIsolation(values.isolate),
+    workerPools: parseIntegerList(values["worker-pool"], "worker-pool") ?? [],
+    comparePath: values.compare === undefined ? null : resolve(values.compare),
+    regressionThreshold: parseNumber(values["regression-threshold"], 0.1, "regression-threshold"),
+    warmup: parseInteger(values.warmup, 3, "warmup"),
+    iterations: parseInteger(values.iterations, 12, "iterations"),
+    maxCv: parseNumber(values["max-cv"], 0.1, "max-cv"),
+    targetCi,
+    maxTimeMs: maxTimeMs ?? (targetCi === null ? null : DEFAULT_ADAPTIVE_BUDGET_MS),
+    concurrency: parseIntegerList(values.concurrency, "concurrency"),
+    soak: parseSoak(values.soak, values["soak-interval"], values["soak-threshold"]),
+    // Zero in any unit (`0`, `0ms`) samples once after each render instead of on an interval.
+    memorySampleIntervalMs: parseDuration(memoryIntervalArg, "memory-interval", true) ?? DEFAULT_MEMORY_SAMPLE_INTERVAL_MS,
     saveImages,
-    saveDir: saveDirArg ?? join(process.cwd(), "outputs", "samples"),
-    reportJsonPath: join(process.cwd(), "outputs", "benchmark-report.json"),
-    reportMarkdownPath: join(process.cwd(), "outputs", "benchmark-report.md"),
+    saveDir: resolve(saveDirArg ?? join("outputs", "samples")),
+    soakChartDir:
+      values["soak-chart"] === true || soakChartDirArg !== undefined
+        ? resolve(soakChartDirArg ?? join("outputs", "soak"))
+        : null,
+    historyPath: values["skip-history"]
+      ? null
+      : values["history-file"] === undefined
+        ? DEFAULT_HISTORY_PATH
+        : resolve(values["history-file"]),
+    visualDiffDir: visualDiff ? resolve(visualDiffDirArg ?? join("outputs", "visual-diff")) : null,
+    diffReference: values["diff-reference"] ?? null,
+    sceneProbes,
+    reportJsonPath: resolve(values["report-json"] ?? join("outputs", "benchmark-report.json")),
+    reportMarkdownPath: resolve(values["report-markdown"] ?? join("outputs", "benchmark-report.md")),
   };
 }
 
-function round(value: number, digits = 3): number {
-  const factor = 10 ** digits;
-  return Math.round(value * factor) / factor;
+/** `--diff-reference`: an exact renderer name, or a pattern matching exactly one renderer. */
+function resolveDiffReference(renderers: Array<Pick<BenchRenderer, "name">>, pattern: string | null): string {
+  if (pattern === null) {
+    return renderers[0]!.name;
+  }
+
+  const exact = renderers.find((renderer) => renderer.name === pattern);
+  const matches = renderers.filter((renderer) => matchesNamePattern(renderer.name, pattern));
+
+  if (exact) {
+    return exact.name;
+  }
+
+  if (matches.length !== 1) {
+    throw new Error(
+      `--diff-reference ${pattern} must match exactly one active renderer; it matches ${matches.length > 0 ? matches.map((renderer) => renderer.name).join(", ") : "none"}`,
+    );
+  }
+
+  return matches[0]!.name;
 }
 
-function outputValueAsNumber(output: TaskOutput): number {
-  return output.kind === "image" ? output.bytes : output.value;
+function formatFontSpec(font: BenchFont): string {
+  return `${font.family}=${font.path}:${font.weight}:${font.style}`;
 }
 
-async function runCase(
-  task: BenchTaskName,
-  renderer: (typeof benchRenderers)[number],
-  options: CliOptions,
-  context: Awaited<ReturnType<typeof createBenchContext>>,
-): Promise<{
-  stats: BenchCaseStats;
-  sample?: {
-    format: "png" | "webp" | "svg";
-    buffer: Buffer;
+/**
+ * Every option the run resolved to, defaults included, as config keys. Saved as a config
+ * file it reproduces the run without flags, environment or profile.
+ */
+function resolvedConfig(options: CliOptions): BenchConfig {
+  const config: BenchConfig = {
+    workload: options.tasks.filter((task) => userSceneName(task) === null),
+    sizes: [...new Set(options.sizes.map((size) => `${size.width}x${size.height}`))],
+    dpr: [...new Set(options.sizes.map((size) => size.dpr))],
+    iterations: options.iterations,
+    warmup: options.warmup,
+    maxCv: options.maxCv,
+    isolate: options.isolation,
+    fixtures: options.assets.fixturesDir,
+    font: options.assets.fonts.map(formatFontSpec),
+    memoryInterval: `${options.memorySampleIntervalMs}ms`,
+    regressionThreshold: options.regressionThreshold,
+    saveImages: options.saveImages,
+    soakChart: options.soakChartDir !== null,
+    visualDiff: options.visualDiffDir !== null,
+    probes: options.sceneProbes,
+    reportJson: options.reportJsonPath,
+    reportMarkdown: options.reportMarkdownPath,
+  };
+
+  const optional: Record<string, BenchConfigValue | null | undefined> = {
+    scene: options.assets.scenePaths?.length ? options.assets.scenePaths : null,
+    fontFamily: options.assets.fontFamily,
+    textSamples: options.assets.textSamplesPath,
+    webpQuality: options.encode.webpQuality,
+    renderer: options.renderers,
+    excludeRenderer: options.excludeRenderers.length > 0 ? options.excludeRenderers : null,
+    targetCi: options.targetCi,
+    maxTime: options.maxTimeMs === null ? null : `${options.maxTimeMs}ms`,
+    concurrency: options.concurrency,
+    workerPool: options.workerPools.length > 0 ? options.workerPools : null,
+    soak: options.soak && (options.soak.iterations ?? `${options.soak.durationMs}ms`),
+    soakInterval: options.soak && `${options.soak.sampleIntervalMs}ms`,
+    soakThreshold: options.soak?.thresholdMbPer1k,
+    // `--save-dir` implies `--save-images`.
+    saveDir: options.saveImages ? options.saveDir : null,
+    soakChartDir: options.soakChartDir,
+    visualDiffDir: options.visualDiffDir,
+    diffReference: options.diffReference,
+    compare: options.comparePath,
+    historyFile: options.historyPath,
+    skipHistory: options.historyPath === null ? true : null,
   };
-}> {
-  for (let iteration = 0; iteration < options.warmup; iteration += 1) {
-    await renderer.run(context, task);
+
+  for (const [key, value] of Object.entries(optional)) {
+    if (value !== null && value !== undefined) {
+      config[key] = value;
+    }
+  }
+
+  return config;
+}
+
+function buildConfigMarkdown(options: CliOptions): string[] {
+  return [
+    "## Configuration",
+    "",
+    "- Resolved options with defaults filled in; save the block as a config file and run with `--config <file>` to reproduce this run.",
+    "",
+    "```json",
+    JSON.stringify(resolvedConfig(options), null, 2),
+    "```",
+    "",
+  ];
+}
+
+/**
+ * Renderer name for report rows, suffixed with the output size when several sizes ran.
+ */
+function caseLabel(options: CliOptions, row: { renderer: string } & OutputSize): string {
+  return options.sizes.length > 1 ? `${row.renderer} @ ${formatSize(row)}` : row.renderer;
+}
+
+function physicalPixels(size: OutputSize): number {
+  const { width, height } = physicalSize(size);
+  return width * height;
+}
+
+function formatOutput(stats: BenchCaseStats): string {
+  if (stats.outputKind === "image") {
+    return `${round(stats.outputAverage / 1024, 2)} KB`;
   }
 
-  globalThis.gc?.();
+  return `${round(stats.outputAverage, 2)}`;
+}
 
-  const baseline = process.memoryUsage();
-  const times: number[] = [];
-  const outputs: number[] = [];
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${round(bytes / 1024 / 1024, 2)} MB` : `${round(bytes / 1024, 2)} KB`;
+}
 
-  let rssPeak = baseline.rss;
-  let heapPeak = baseline.heapUsed;
-  let outputKind: TaskOutput["kind"] = "metric";
-  let outputUnit: "bytes" | "value" = "value";
-  let sample:
-    | {
-        format: "png" | "webp" | "svg";
-        buffer: Buffer;
-      }
-    | undefined;
+function describeSampling(options: CliOptions): string {
+  if (!isAdaptive(options)) {
+    return `fixed, ${options.iterations} measured iterations`;
+  }
+
+  const target = options.targetCi === null ? "no CI target" : `target 95% CI ±${formatPercent(options.targetCi)} of mean`;
+  return `adaptive, min ${options.iterations} iterations, ${target}, budget ${round(options.maxTimeMs! / 1_000, 2)} s per case`;
+}
+
+function describeIsolation(mode: IsolationMode): string {
+  if (mode === "renderer") {
+    return "one child process per renderer";
+  }
+
+  if (mode === "case") {
+    return "one child process per renderer/task case";
+  }
+
+  return "none (all renderers share one process)";
+}
+
+function formatPercent(fraction: number): string {
+  return `${round(fraction * 100, 1)}%`;
+}
+
+function buildPrepareMarkdown(prepared: RendererPrepareStats[]): string[] {
+  const lines: string[] = [];
+  const names = [...new Set(prepared.map((entry) => entry.renderer))];
+
+  lines.push("## Prepare");
+  lines.push("");
+  lines.push("| Renderer | Prepares | Avg prepare (ms) | Workers | Avg per-worker prepare (ms) | Max per-worker prepare (ms) |");
+  lines.push("|---|---:|---:|---:|---:|---:|");
 
-  for (let iteration = 0; iteration < options.iterations; iteration += 1) {
-    const start = performance.now();
-    const output = await renderer.run(context, task);
-    const end = performance.now();
+  for (const name of names) {
+    const entries = prepared.filter((entry) => entry.renderer === name);
+    const workerTimes = entries.flatMap((entry) => entry.workerPrepareMs ?? []);
+    const workers = entries[0]?.workerPrepareMs?.length ?? 0;
 
-    outputKind = output.kind;
-    outputUnit = output.kind === "image" ? "bytes" : "value";
+    lines.push(
+      `| ${name} | ${entries.length} | ${mean(entries.map((entry) => entry.prepareMs)).toFixed(3)} | ${workers || "-"} | ${workerTimes.length > 0 ? mean(workerTimes).toFixed(3) : "-"} | ${workerTimes.length > 0 ? Math.max(...workerTimes).toFixed(3) : "-"} |`,
+    );
+  }
+
+  lines.push("");
+  return lines;
+}
+
+function buildThroughputMarkdown(options: CliOptions, throughput: ThroughputStats[]): string[] {
+  const lines: string[] = [];
 
-    if (options.saveImages && !sample && output.kind === "image") {
-      sample = {
-        format: output.format,
-        buffer: output.buffer,
-      };
+  lines.push("## Throughput");
+  lines.push("");
+  lines.push(`- Concurrency sweep: ${[...new Set([1, ...(options.concurrency ?? [])])].sort((a, b) => a - b).join(", ")}`);
+  lines.push(`- Renders per in-flight slot: ${options.iterations} (after ${options.warmup} warmup)`);
+  lines.push(`- libuv threadpool size: ${process.env.UV_THREADPOOL_SIZE ?? "4 (default)"}`);
+  lines.push("- Scaling efficiency is (ops/sec at N / ops/sec at 1) / N; 100% means perfectly parallel, 1/N means fully serialized.");
+  lines.push("");
+
+  for (const task of options.tasks) {
+    const rows = throughput.filter((entry) => entry.task === task);
+
+    if (rows.length === 0) {
+      continue;
     }
 
-    times.push(end - start);
-    outputs.push(outputValueAsNumber(output));
+    lines.push(`### ${task}: throughput`);
+    lines.push("");
+    lines.push("| Renderer | N | Ops | Ops/sec | Avg latency (ms) | P50 (ms) | P95 (ms) | P99 (ms) | Max (ms) | Scaling efficiency |");
+    lines.push("|---|---:|---:|---:|---:|---:|---:|---:|---:|---:|");
+
+    for (const row of rows) {
+      lines.push(
+        `| ${caseLabel(options, row)} | ${row.concurrency} | ${row.operations} | ${row.opsPerSec.toFixed(2)} | ${row.avgMs.toFixed(3)} | ${row.p50Ms.toFixed(3)} | ${row.p95Ms.toFixed(3)} | ${row.p99Ms.toFixed(3)} | ${row.maxMs.toFixed(3)} | ${formatPercent(row.scalingEfficiency)} |`,
+      );
+    }
 
-    const memory = process.memoryUsage();
-    rssPeak = Math.max(rssPeak, memory.rss);
-    heapPeak = Math.max(heapPeak, memory.heapUsed);
+    lines.push("");
   }
 
-  globalThis.gc?.();
-  const ending = process.memoryUsage();
+  return lines;
+}
 
-  return {
-    stats: {
-      renderer: renderer.name,
-      task,
-      iterations: options.iterations,
-      warmup: options.warmup,
-      avgMs: round(mean(times)),
-      p95Ms: round(percentile(times, 0.95)),
-      minMs: round(Math.min(...times)),
-      maxMs: round(Math.max(...times)),
-      rssPeakDeltaMb: round(formatMb(rssPeak - baseline.rss)),
-      heapPeakDeltaMb: round(formatMb(heapPeak - baseline.heapUsed)),
-      heapEndDeltaMb: round(formatMb(ending.heapUsed - baseline.heapUsed)),
-      outputKind,
-      outputAverage: round(mean(outputs)),
-      outputUnit,
-    },
-    sample,
-  };
+function describeSoak(soak: SoakOptions): string {
+  const length =
+    soak.iterations === null ? `${round(soak.durationMs! / 60_000, 2)} min per case` : `${soak.iterations} renders per case`;
+  return `${length}, memory sampled every ${round(soak.sampleIntervalMs / 1_000, 2)} s, flag above ${soak.thresholdMbPer1k} MB per 1k renders`;
 }
 
-function toSafeFileName(input: string): string {
-  return input
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/^-+|-+$/g, "");
+function formatGrowth(growth: SoakStats["growth"][keyof SoakStats["growth"]]): string {
+  return `${growth.mbPer1kRenders.toFixed(3)} (r² ${growth.r2.toFixed(2)})`;
 }
 
-function formatOutput(stats: BenchCaseStats): string {
-  if (stats.outputKind === "image") {
-    return `${round(stats.outputAverage / 1024, 2)} KB`;
+function buildSoakMarkdown(soakResults: SoakRecord[]): string[] {
+  const lines: string[] = [];
+
+  lines.push("## Soak");
+  lines.push("");
+  lines.push(
+    "- Growth is the least-squares slope of each memory series against render count (MB per 1k renders), fitted after the first 10% of renders; samples are taken after a forced GC when `--expose-gc` is set.",
+  );
+  lines.push("");
+  lines.push(
+    "| Renderer | Task | Renders | Duration (s) | RSS MB/1k | Heap MB/1k | External MB/1k | ArrayBuffers MB/1k | Flagged | Chart |",
+  );
+  lines.push("|---|---|---:|---:|---:|---:|---:|---:|---|---|");
+
+  for (const { renderer, task, soak, chartPath } of soakResults) {
+    const { growth } = soak;
+    const flagged = soak.flagged.length > 0 ? `⚠ ${soak.flagged.join(", ")}` : "-";
+    lines.push(
+      `| ${renderer} | ${task} | ${soak.iterations} | ${round(soak.durationMs / 1_000, 2)} | ${formatGrowth(growth.rssMb)} | ${formatGrowth(growth.heapUsedMb)} | ${formatGrowth(growth.externalMb)} | ${formatGrowth(growth.arrayBuffersMb)} | ${flagged} | ${chartPath ?? "-"} |`,
+    );
   }
 
-  return `${round(stats.outputAverage, 2)}`;
+  lines.push("");
+  return lines;
 }
 
 function buildMarkdownReport(
   options: CliOptions,
   stats: BenchCaseStats[],
   skipped: BenchCaseSkip[],
+  failed: BenchCaseFailure[],
   savedImages: SavedImageRecord[],
+  prepared: RendererPrepareStats[],
+  throughput: ThroughputStats[],
+  soakResults: SoakRecord[],
+  comparison: BenchComparison | null,
+  selection: RendererSelection,
+  visualDiff: VisualDiffResult[],
+  sceneProbes: SceneProbeResult[],
+  textLayout: TextLayoutRecord[],
 ): string {
   const lines: string[] = [];
 
@@ -219,51 +647,217 @@ function buildMarkdownReport(
   lines.push(`- Node.js: ${process.version}`);
   lines.push(`- Platform: ${process.platform} ${process.arch}`);
   lines.push(`- CPU: ${os.cpus()[0]?.model ?? "unknown"}`);
+  lines.push(`- Isolation: ${describeIsolation(options.isolation)}`);
+  lines.push(
+    `- Renderers: ${selection.active.join(", ")}${selection.excluded.length > 0 ? ` (excluded: ${selection.excluded.join(", ")})` : ""}`,
+  );
+  lines.push(`- Output size${options.sizes.length > 1 ? "s" : ""}: ${options.sizes.map(formatSize).join(", ")}`);
+  if (options.workerPools.length > 0) {
+    lines.push(`- Worker pools: ${options.workerPools.map((size) => `${size} worker(s)`).join(", ")}`);
+  }
+  if (options.scenes.length > 0) {
+    lines.push(
+      `- Scenes: ${options.scenes.map((scene) => `\`scene:${scene.name}\` (${scene.kind}, ${relative(process.cwd(), scene.path)})`).join(", ")}`,
+    );
+  }
+  if (options.config.path) {
+    lines.push(
+      `- Config: ${relative(process.cwd(), options.config.path)}${options.config.profile ? ` (profile \`${options.config.profile}\`)` : ""}`,
+    );
+  }
+  lines.push(`- Fixtures: ${relative(process.cwd(), options.assets.fixturesDir) || "."}`);
+  lines.push(
+    `- Fonts: ${options.assets.fonts.map((font) => `${font.family} ${font.weight}${font.style === "italic" ? " italic" : ""} (${relative(process.cwd(), font.path)})`).join(", ")}`,
+  );
+  lines.push(
+    `- Text samples: ${options.assets.textSamplesPath ? relative(process.cwd(), options.assets.textSamplesPath) : "built-in"}`,
+  );
   lines.push(`- GC exposed: ${globalThis.gc ? "yes" : "no"}`);
   lines.push(`- Warmup iterations: ${options.warmup}`);
-  lines.push(`- Measured iterations: ${options.iterations}`);
+  lines.push(`- Sampling: ${describeSampling(options)}`);
+  if (options.soak) {
+    lines.push(`- Soak: ${describeSoak(options.soak)}`);
+  }
+  lines.push(`- High-variance threshold (CV): ${formatPercent(options.maxCv)}`);
   lines.push("");
   lines.push("## Method");
   lines.push("");
   lines.push("- `image-stream` uses in-memory streams sourced from preloaded fixture buffers (disk I/O excluded).");
-  lines.push("- Memory columns are per-case peak deltas from per-case baseline (`rss`, `heapUsed`).");
-  lines.push("- `text-layout`: canvas/takumi use text layout measurement widths; satori reports SVG output size from text layout generation.");
+  lines.push("- 95% CI is a percentile bootstrap interval for the mean latency; CV is sample standard deviation / mean.");
+  lines.push(
+    "- Loop delay is `perf_hooks.monitorEventLoopDelay` during measured iterations, minus its 10 ms sampling interval; high values mean the renderer blocks the main thread. CPU / wall above 1 means work ran on other threads.",
+  );
+  if (options.workerPools.length > 0) {
+    lines.push(
+      "- `[pool×K]` renderers run every render on one of K worker threads; fixtures are shared via `SharedArrayBuffer` and outputs are transferred back. Dispatch overhead is round-trip time minus in-worker render time.",
+    );
+  }
+  lines.push(
+    options.memorySampleIntervalMs > 0
+      ? `- Memory columns are per-case peak deltas from the per-case baseline, polled every ${options.memorySampleIntervalMs} ms while the case runs; RSS is also polled from a helper thread so peaks inside synchronous renders are caught.`
+      : "- Memory columns are per-case peak deltas from the per-case baseline, sampled after each render only (`--memory-interval 0`).",
+  );
+  lines.push(
+    "- GC counts and pause time come from `gc` performance entries during measured iterations; allocated bytes per render is JS heap growth plus bytes reclaimed by those collections. Native (off-heap) allocations are not included.",
+  );
+  lines.push(
+    "- Every image output (warmup and measured) is validated after it is timed: PNG/WebP signature and IHDR/VP8 size against the requested device-pixel size, SVG well-formedness and viewBox. A case with an invalid output is marked failed and gets no timings.",
+  );
+  lines.push(
+    "- `text-layout`: every renderer lays out the same samples and reports per-sample width, height, line count and baseline in logical pixels; the Output column is the summed sample width.",
+  );
   lines.push("");
 
+  const mismatched = (row: BenchCaseStats) =>
+    visualDiff.some(
+      (result) =>
+        result.task === row.task && result.renderer === caseLabel(options, row) && result.ssim < SSIM_MISMATCH_THRESHOLD,
+    );
+
   for (const task of options.tasks) {
+    // Renderers that drew something else than the reference rank below those that did not.
     const rows = stats
       .filter((entry) => entry.task === task)
-      .sort((left, right) => left.avgMs - right.avgMs);
+      .sort(
+        (left, right) =>
+          physicalPixels(left) - physicalPixels(right) ||
+          Number(mismatched(left)) - Number(mismatched(right)) ||
+          left.avgMs - right.avgMs,
+      );
+
+    // Failed cases have no timings, so they are listed after every ranked row.
+    const failures = failed.filter((entry) => entry.task === task);
 
     lines.push(`## ${task}`);
     lines.push("");
 
-    if (rows.length === 0) {
+    if (rows.length === 0 && failures.length === 0) {
       lines.push("No successful runs.");
       lines.push("");
       continue;
     }
 
-    lines.push("| Renderer | Avg (ms) | P95 (ms) | Min (ms) | Max (ms) | RSS peak Δ (MB) | Heap peak Δ (MB) | Output |",
+    lines.push(
+      "| Renderer | N | Avg (ms) | 95% CI (ms) | Median (ms) | P95 (ms) | P99 (ms) | Min (ms) | Max (ms) | StdDev (ms) | MAD (ms) | CV | RSS peak Δ (MB) | Heap peak Δ (MB) | Output | Validation |",
+    );
+    lines.push("|---|---:|---:|---:|---:|---:|---:|---:|---:|---:|---:|---:|---:|---:|---:|---|");
+
+    for (const row of rows) {
+      const renderer = `${caseLabel(options, row)}${row.highVariance ? " ⚠" : ""}${mismatched(row) ? " ≠" : ""}`;
+      lines.push(
+        `| ${renderer} | ${row.iterations} | ${row.avgMs.toFixed(3)} | ${row.ci95LowMs.toFixed(3)}–${row.ci95HighMs.toFixed(3)} | ${row.medianMs.toFixed(3)} | ${row.p95Ms.toFixed(3)} | ${row.p99Ms.toFixed(3)} | ${row.minMs.toFixed(3)} | ${row.maxMs.toFixed(3)} | ${row.stdDevMs.toFixed(3)} | ${row.madMs.toFixed(3)} | ${formatPercent(row.cv)} | ${row.rssPeakDeltaMb.toFixed(3)} | ${row.heapPeakDeltaMb.toFixed(3)} | ${formatOutput(row)} | ${row.outputValidation ? `✓ ${row.outputValidation}` : "-"} |`,
+      );
+    }
+
+    for (const failure of failures) {
+      lines.push(
+        `| ${caseLabel(options, failure)} ✗ | - | - | - | - | - | - | - | - | - | - | - | - | - | - | ✗ ${failure.reason.replaceAll("|", "\\|")} |`,
+      );
+    }
+
+    lines.push("");
+
+    if (failures.length > 0) {
+      lines.push("✗ Failed: the output did not pass validation, so the case was stopped and is not ranked.");
+      lines.push("");
+    }
+
+    if (rows.length === 0) {
+      continue;
+    }
+
+    if (rows.some((row) => row.highVariance)) {
+      lines.push(
+        `⚠ CV above ${formatPercent(options.maxCv)}: differences involving these renderers are not reliable at this sample size.`,
+      );
+      lines.push("");
+    }
+
+    if (rows.some(mismatched)) {
+      lines.push(`≠ Output differs visibly from the reference (SSIM below ${SSIM_MISMATCH_THRESHOLD}); see Visual Diff.`);
+      lines.push("");
+    }
+
+    lines.push(`### ${task}: memory`);
+    lines.push("");
+    lines.push(
+      "| Renderer | RSS peak Δ (MB) | Heap peak Δ (MB) | Heap end Δ (MB) | External peak Δ (MB) | ArrayBuffers peak Δ (MB) | Samples |",
+    );
+    lines.push("|---|---:|---:|---:|---:|---:|---:|");
+
+    for (const row of rows) {
+      lines.push(
+        `| ${caseLabel(options, row)} | ${row.rssPeakDeltaMb.toFixed(3)} | ${row.heapPeakDeltaMb.toFixed(3)} | ${row.heapEndDeltaMb.toFixed(3)} | ${row.externalPeakDeltaMb.toFixed(3)} | ${row.arrayBuffersPeakDeltaMb.toFixed(3)} | ${row.memorySamples} |`,
+      );
+    }
+
+    lines.push("");
+
+    lines.push(`### ${task}: GC`);
+    lines.push("");
+    lines.push("| Renderer | Minor GCs | Major GCs | GC pause (ms) | GC pause / render (ms) | GC share of latency | Allocated / render |");
+    lines.push("|---|---:|---:|---:|---:|---:|---:|");
+
+    for (const row of rows) {
+      lines.push(
+        `| ${caseLabel(options, row)} | ${row.gcMinorCount} | ${row.gcMajorCount} | ${row.gcPauseMs.toFixed(3)} | ${(row.gcPauseMs / row.iterations).toFixed(3)} | ${formatPercent(row.gcPauseShare)} | ${formatBytes(row.allocatedBytesPerRender)} |`,
+      );
+    }
+
+    lines.push("");
+
+    lines.push(`### ${task}: event loop and CPU`);
+    lines.push("");
+    const showDispatch = rows.some((row) => row.dispatchOverheadMs !== undefined);
+    lines.push(
+      `| Renderer | Loop delay p50 (ms) | Loop delay p99 (ms) | Loop delay max (ms) | CPU user / op (ms) | CPU system / op (ms) | CPU / wall |${showDispatch ? " Dispatch overhead (ms) |" : ""}`,
     );
-    lines.push("|---|---:|---:|---:|---:|---:|---:|---:|");
+    lines.push(`|---|---:|---:|---:|---:|---:|---:|${showDispatch ? "---:|" : ""}`);
 
     for (const row of rows) {
+      const dispatch = showDispatch ? ` ${row.dispatchOverheadMs?.toFixed(3) ?? "-"} |` : "";
       lines.push(
-        `| ${row.renderer} | ${row.avgMs.toFixed(3)} | ${row.p95Ms.toFixed(3)} | ${row.minMs.toFixed(3)} | ${row.maxMs.toFixed(3)} | ${row.rssPeakDeltaMb.toFixed(3)} | ${row.heapPeakDeltaMb.toFixed(3)} | ${formatOutput(row)} |`,
+        `| ${caseLabel(options, row)} | ${row.eventLoopDelayP50Ms.toFixed(3)} | ${row.eventLoopDelayP99Ms.toFixed(3)} | ${row.eventLoopDelayMaxMs.toFixed(3)} | ${row.cpuUserMs.toFixed(3)} | ${row.cpuSystemMs.toFixed(3)} | ${row.cpuUtilization.toFixed(2)} |${dispatch}`,
       );
     }
 
     lines.push("");
   }
 
+  if (prepared.length > 0) {
+    lines.push(...buildPrepareMarkdown(prepared));
+  }
+
+  if (options.sizes.length > 1) {
+    lines.push(...buildResolutionMarkdown(options.tasks, options.sizes, stats));
+  }
+
+  lines.push(...buildComplexityMarkdown(stats, (row) => caseLabel(options, row)));
+  lines.push(...buildVisualDiffMarkdown(visualDiff));
+  lines.push(...buildSceneProbeMarkdown(sceneProbes));
+  lines.push(...buildTextLayoutMarkdown(textLayout));
+
+  if (options.concurrency) {
+    lines.push(...buildThroughputMarkdown(options, throughput));
+  }
+
+  if (soakResults.length > 0) {
+    lines.push(...buildSoakMarkdown(soakResults));
+  }
+
+  if (comparison) {
+    lines.push(...buildComparisonMarkdown(comparison));
+  }
+
   if (skipped.length > 0) {
     lines.push("## Unsupported / Skipped");
     lines.push("");
     lines.push("| Renderer | Task | Reason |",);
     lines.push("|---|---|---|");
 
-    for (const skip of skipped) {
+    const unique = new Map(skipped.map((skip) => [`${skip.renderer}\u0000${skip.task}\u0000${skip.reason}`, skip]));
+
+    for (const skip of unique.values()) {
       lines.push(`| ${skip.renderer} | ${skip.task} | ${skip.reason.replaceAll("|", "\\|")} |`);
     }
 
@@ -283,61 +877,195 @@ function buildMarkdownReport(
     lines.push("");
   }
 
+  lines.push(...buildConfigMarkdown(options));
   return lines.join("\n");
 }
 
-const options = parseCliOptions();
-const context = await createBenchContext();
+const options = await parseCliOptions();
 const stats: BenchCaseStats[] = [];
 const skipped: BenchCaseSkip[] = [];
+const failed: BenchCaseFailure[] = [];
 const savedImages: SavedImageRecord[] = [];
+const textLayout: TextLayoutRecord[] = [];
+const throughput: ThroughputStats[] = [];
+const prepared: RendererPrepareStats[] = [];
+const soakResults: SoakRecord[] = [];
+const allRenderers = rendererEntries(options.workerPools);
+// Only selected renderers are loaded, so an excluded renderer's library is never imported.
+const renderers = selectRenderers(allRenderers, options.renderers, options.excludeRenderers);
+const selection: RendererSelection = {
+  active: renderers.map((renderer) => renderer.name),
+  excluded: allRenderers.filter((renderer) => !renderers.includes(renderer)).map((renderer) => renderer.name),
+};
+const diffReference = options.visualDiffDir ? resolveDiffReference(renderers, options.diffReference) : null;
+const baseline = options.comparePath ? await loadBaselineReport(options.comparePath) : null;
 
-for (const renderer of benchRenderers) {
-  await renderer.prepare?.(context);
+function logCaseStart(renderer: string, task: BenchTaskName, size: OutputSize): void {
+  const suffix = options.sizes.length > 1 ? ` @ ${formatSize(size)}` : "";
+  process.stdout.write(`running ${renderer} :: ${task}${suffix} ... `);
 }
 
-if (options.saveImages) {
-  await mkdir(options.saveDir, { recursive: true });
+async function recordOutcome(outcome: BenchCaseOutcome): Promise<void> {
+  if (outcome.kind === "skipped") {
+    skipped.push(outcome.skip);
+    console.log("skipped");
+    return;
+  }
+
+  if (outcome.kind === "failed") {
+    failed.push(outcome.failure);
+    console.log(`failed (invalid output: ${outcome.failure.reason})`);
+    return;
+  }
+
+  const { stats: caseStats, sample, throughput: caseThroughput, soak, textLayout: samples } = outcome.result;
+  stats.push(caseStats);
+  console.log(
+    `n=${caseStats.iterations} avg ${caseStats.avgMs.toFixed(3)} ms (±${round((caseStats.ci95HighMs - caseStats.ci95LowMs) / 2)} ms, cv ${formatPercent(caseStats.cv)})${caseStats.highVariance ? " [high variance]" : ""}`,
+  );
+
+  for (const level of caseThroughput ?? []) {
+    throughput.push(level);
+    console.log(
+      `  concurrency ${level.concurrency}: ${level.opsPerSec.toFixed(2)} ops/s, p95 ${level.p95Ms.toFixed(3)} ms, efficiency ${formatPercent(level.scalingEfficiency)}`,
+    );
+  }
+
+  const label = caseLabel(options, caseStats);
+
+  if (samples) {
+    textLayout.push({
+      renderer: caseStats.renderer,
+      size: { width: caseStats.width, height: caseStats.height, dpr: caseStats.dpr },
+      samples,
+    });
+  }
+
+  if (soak) {
+    let chartPath: string | null = null;
+
+    if (options.soakChartDir) {
+      chartPath = join(options.soakChartDir, `${toSafeFileName(caseStats.task)}__${toSafeFileName(label)}.svg`);
+      await mkdir(options.soakChartDir, { recursive: true });
+      await writeFile(chartPath, buildSoakChartSvg(`${label} :: ${caseStats.task}`, soak));
+    }
+
+    soakResults.push({ renderer: label, task: caseStats.task, soak, chartPath });
+    console.log(
+      `  soak: rss ${soak.growth.rssMb.mbPer1kRenders.toFixed(3)} MB/1k, heap ${soak.growth.heapUsedMb.mbPer1kRenders.toFixed(3)} MB/1k${soak.flagged.length > 0 ? ` [growth: ${soak.flagged.join(", ")}]` : ""}`,
+    );
+  }
+
+  if (options.saveImages && sample) {
+    const fileName = `${toSafeFileName(caseStats.task)}__${toSafeFileName(label)}.${sample.format}`;
+    const filePath = join(options.saveDir, fileName);
+    await mkdir(options.saveDir, { recursive: true });
+    await writeFile(filePath, sample.buffer);
+    savedImages.push({
+      renderer: label,
+      task: caseStats.task,
+      size: { width: caseStats.width, height: caseStats.height, dpr: caseStats.dpr },
+      format: sample.format,
+      path: filePath,
+    });
+  }
 }
 
-for (const task of options.tasks) {
-  for (const renderer of benchRenderers) {
-    process.stdout.write(`running ${renderer.name} :: ${task} ... `);
+if (options.isolation === "none") {
+  const context = await createBenchContext(options.sizes[0], options.assets, options.encode);
+  const loaded: BenchRenderer[] = [];
 
-    try {
-      const result = await runCase(task, renderer, options, context);
-      stats.push(result.stats);
-      console.log(`avg ${result.stats.avgMs.toFixed(3)} ms`);
-
-      if (options.saveImages && result.sample) {
-        const fileName = `${toSafeFileName(task)}__${toSafeFileName(renderer.name)}.${result.sample.format}`;
-        const filePath = join(options.saveDir, fileName);
-        await writeFile(filePath, result.sample.buffer);
-        savedImages.push({
-          renderer: renderer.name,
-          task,
-          format: result.sample.format,
-          path: filePath,
-        });
-      }
-    } catch (error) {
-      if (error instanceof UnsupportedTaskError) {
-        skipped.push({
-          renderer: renderer.name,
-          task,
-          reason: error.message,
-        });
-        console.log("skipped");
-        continue;
+  for (const entry of renderers) {
+    loaded.push(await entry.load());
+  }
+
+  for (const renderer of loaded) {
+    prepared.push(await prepareRenderer(renderer, context));
+  }
+
+  try {
+    for (const size of options.sizes) {
+      const sizedContext = withOutputSize(context, size);
+
+      for (const task of options.tasks) {
+        for (const renderer of loaded) {
+          logCaseStart(renderer.name, task, size);
+
+          try {
+            await recordOutcome(await runCaseOutcome(task, renderer, toSamplingOptions(options), sizedContext));
+          } catch (error) {
+            console.log("failed");
+            throw error;
+          }
+        }
       }
+    }
+  } finally {
+    await Promise.all(loaded.map((renderer) => renderer.dispose?.()));
+  }
+} else {
+  const jobs =
+    options.isolation === "renderer"
+      ? renderers.map((renderer) => ({ renderer: renderer.name, tasks: options.tasks, sizes: options.sizes }))
+      : options.sizes.flatMap((size) =>
+          options.tasks.flatMap((task) =>
+            renderers.map((renderer) => ({ renderer: renderer.name, tasks: [task], sizes: [size] })),
+          ),
+        );
 
+  for (const job of jobs) {
+    try {
+      await runIsolated(
+        {
+          ...job,
+          options: toSamplingOptions(options),
+          workerPools: options.workerPools,
+          assets: options.assets,
+          encode: options.encode,
+        },
+        {
+          onPrepared: (entry) => prepared.push(entry),
+          onStart: logCaseStart,
+          onOutcome: recordOutcome,
+        },
+      );
+    } catch (error) {
       console.log("failed");
       throw error;
     }
   }
 }
 
-await mkdir(join(process.cwd(), "outputs"), { recursive: true });
+await mkdir(dirname(options.reportJsonPath), { recursive: true });
+await mkdir(dirname(options.reportMarkdownPath), { recursive: true });
+
+if (options.visualDiffDir && diffReference && savedImages.length > 0) {
+  console.log(`\nComparing outputs against ${diffReference} ...`);
+}
+
+const visualDiff =
+  options.visualDiffDir && diffReference
+    ? await runVisualDiff(
+        savedImages.map((image) => ({ ...image, reference: caseLabel(options, { ...image.size, renderer: diffReference }) })),
+        options.assets.fonts,
+        options.visualDiffDir,
+        (task, label) => `${toSafeFileName(task)}__${toSafeFileName(label)}.png`,
+      )
+    : [];
+
+if (options.sceneProbes && savedImages.length > 0) {
+  console.log("\nProbing kitchen-sink outputs ...");
+}
+
+// The parent never rendered in isolated runs, so the probes load their own fixtures.
+const sceneProbes = options.sceneProbes
+  ? await runSceneProbes(savedImages, await createBenchContext(options.sizes[0], options.assets, options.encode))
+  : [];
+
+const comparison =
+  baseline && options.comparePath
+    ? compareWithBaseline(stats, baseline, options.comparePath, options.regressionThreshold)
+    : null;
 
 const reportJson = {
   generatedAt: new Date().toISOString(),
@@ -345,23 +1073,92 @@ const reportJson = {
   platform: `${process.platform}-${process.arch}`,
   cpu: os.cpus()[0]?.model ?? "unknown",
   tasks: options.tasks,
+  sizes: options.sizes,
+  scenes: options.scenes.map(({ name, kind, path }) => ({ name, kind, path })),
+  config: { ...options.config, resolved: resolvedConfig(options) },
+  assets: {
+    fixturesDir: options.assets.fixturesDir,
+    fonts: options.assets.fonts,
+    fontFamily: options.assets.fontFamily ?? options.assets.fonts[0]!.family,
+    textSamplesPath: options.assets.textSamplesPath ?? null,
+  },
+  isolation: options.isolation,
+  workerPools: options.workerPools,
+  renderers: { ...selection, include: options.renderers, exclude: options.excludeRenderers },
   warmup: options.warmup,
   iterations: options.iterations,
+  targetCi: options.targetCi,
+  maxTimeMs: options.maxTimeMs,
+  concurrency: options.concurrency,
+  soak: options.soak,
+  memorySampleIntervalMs: options.memorySampleIntervalMs,
+  maxCv: options.maxCv,
   gcExposed: Boolean(globalThis.gc),
+  prepared,
   stats,
+  throughput,
+  soakResults,
   skipped,
+  failed,
   savedImages,
+  visualDiff: diffReference ? { reference: diffReference, results: visualDiff } : null,
+  sceneProbes: options.sceneProbes ? sceneProbes : null,
+  textLayout,
+  comparison,
 };
 
-const reportMarkdown = buildMarkdownReport(options, stats, skipped, savedImages);
+const reportMarkdown = buildMarkdownReport(
+  options,
+  stats,
+  skipped,
+  failed,
+  savedImages,
+  prepared,
+  throughput,
+  soakResults,
+  comparison,
+  selection,
+  visualDiff,
+  sceneProbes,
+  textLayout,
+);
 
 await Promise.all([
   writeFile(options.reportJsonPath, `${JSON.stringify(reportJson, null, 2)}\n`),
   writeFile(options.reportMarkdownPath, reportMarkdown),
 ]);
 
+if (options.historyPath) {
+  const run: HistoryRun = {
+    mode: options.soak ? "soak" : isAdaptive(toSamplingOptions(options)) ? "adaptive" : "fixed",
+    profile: options.config.profile,
+  };
+  await appendHistoryEntry(options.historyPath, await createHistoryEntry(run, options.tasks, stats));
+}
+
 console.log(`\nWrote JSON report: ${options.reportJsonPath}`);
 console.log(`Wrote Markdown report: ${options.reportMarkdownPath}`);
+if (options.historyPath) {
+  console.log(`Appended history entry: ${options.historyPath}`);
+}
+if (options.soakChartDir && soakResults.length > 0) {
+  console.log(`Wrote soak charts: ${options.soakChartDir}`);
+}
 if (options.saveImages) {
   console.log(`Saved sample images: ${options.saveDir}`);
 }
+
+if (failed.length > 0) {
+  console.error(`${failed.length} case(s) failed output validation; see the report`);
+  process.exitCode = 1;
+}
+
+if (comparison) {
+  console.log(
+    `Compared against ${comparison.baselinePath}: ${comparison.regressions} regression(s) above ${formatPercent(comparison.threshold)}`,
+  );
+
+  if (comparison.regressions > 0) {
+    process.exitCode = 1;
+  }
+}
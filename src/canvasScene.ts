@@ -1,4 +1,13 @@
-import type { BenchContext } from "./types.js";
+import {
+  type Scene,
+  type SceneImageNode,
+  type SceneImages,
+  type SceneNode,
+  sceneImage,
+  sceneTextBaseline,
+} from "./scene.js";
+import { lineBoxBaseline, textLayoutSpecs } from "./textLayout.js";
+import type { BenchContext, TextLayoutSample } from "./types.js";
 
 interface Canvas2DLike {
   fillStyle: unknown;
@@ -11,9 +20,10 @@ interface Canvas2DLike {
   clip: () => void;
   save: () => void;
   restore: () => void;
+  scale: (x: number, y: number) => void;
   moveTo: (x: number, y: number) => void;
   lineTo: (x: number, y: number) => void;
-  quadraticCurveTo: (cpx: number, cpy: number, x: number, y: number) => void;
+  arcTo: (x1: number, y1: number, x2: number, y2: number, radius: number) => void;
   fillRect: (x: number, y: number, width: number, height: number) => void;
   fill: () => void;
   stroke: () => void;
@@ -23,7 +33,17 @@ interface Canvas2DLike {
     addColorStop: (offset: number, color: string) => void;
   };
   fillText: (text: string, x: number, y: number, maxWidth?: number) => void;
-  measureText: (text: string) => { width: number };
+  measureText: (text: string) => { width: number; fontBoundingBoxAscent: number; fontBoundingBoxDescent: number };
+}
+
+/**
+ * Scales a canvas created at `physicalSize(context)` by the device pixel ratio so scenes,
+ * which are laid out in logical pixels, are drawn at full resolution rather than upscaled.
+ */
+export function applyDevicePixelRatio(ctx: Canvas2DLike, context: BenchContext): void {
+  if (context.dpr !== 1) {
+    ctx.scale(context.dpr, context.dpr);
+  }
 }
 
 export function drawRoundedRect(
@@ -38,123 +58,130 @@ export function drawRoundedRect(
   const right = x + width;
   const bottom = y + height;
 
+  // Circular corners, like CSS `border-radius`, so a radius of half the size draws a circle.
   ctx.moveTo(x + boundedRadius, y);
-  ctx.lineTo(right - boundedRadius, y);
-  ctx.quadraticCurveTo(right, y, right, y + boundedRadius);
-  ctx.lineTo(right, bottom - boundedRadius);
-  ctx.quadraticCurveTo(right, bottom, right - boundedRadius, bottom);
-  ctx.lineTo(x + boundedRadius, bottom);
-  ctx.quadraticCurveTo(x, bottom, x, bottom - boundedRadius);
-  ctx.lineTo(x, y + boundedRadius);
-  ctx.quadraticCurveTo(x, y, x + boundedRadius, y);
+  ctx.arcTo(right, y, right, bottom, boundedRadius);
+  ctx.arcTo(right, bottom, x, bottom, boundedRadius);
+  ctx.arcTo(x, bottom, x, y, boundedRadius);
+  ctx.arcTo(x, y, right, y, boundedRadius);
+  ctx.closePath();
+}
+
+interface CanvasImageLike {
+  width: number;
+  height: number;
 }
 
-export function drawCoverImage(
+/** Draws the part of `image` that covers the node's box, like CSS `object-fit: cover`. */
+function drawImageNode(ctx: Canvas2DLike, node: SceneImageNode, image: CanvasImageLike): void {
+  const scale = Math.max(node.width / image.width, node.height / image.height);
+  const sourceWidth = node.width / scale;
+  const sourceHeight = node.height / scale;
+
+  ctx.drawImage(
+    image,
+    (image.width - sourceWidth) / 2,
+    (image.height - sourceHeight) / 2,
+    sourceWidth,
+    sourceHeight,
+    node.x,
+    node.y,
+    node.width,
+    node.height,
+  );
+}
+
+function drawNode(
   ctx: Canvas2DLike,
-  canvas: { width: number; height: number },
-  image: { width: number; height: number },
+  node: SceneNode,
+  images: SceneImages<CanvasImageLike>,
+  context: BenchContext,
 ): void {
-  const imageRatio = image.width / image.height;
-  const canvasRatio = canvas.width / canvas.height;
-
-  if (imageRatio > canvasRatio) {
-    const drawWidth = canvas.height * imageRatio;
-    const drawX = (canvas.width - drawWidth) / 2;
-    ctx.drawImage(image, drawX, 0, drawWidth, canvas.height);
-  } else {
-    const drawHeight = canvas.width / imageRatio;
-    const drawY = (canvas.height - drawHeight) / 2;
-    ctx.drawImage(image, 0, drawY, canvas.width, drawHeight);
+  switch (node.type) {
+    case "image":
+      drawImageNode(ctx, node, sceneImage(images, node.image));
+      return;
+    case "rect":
+      ctx.fillStyle = node.fill;
+      ctx.fillRect(node.x, node.y, node.width, node.height);
+      return;
+    case "roundedRect":
+      ctx.beginPath();
+      drawRoundedRect(ctx, node.x, node.y, node.width, node.height, node.radius);
+      ctx.fillStyle = node.fill;
+      ctx.fill();
+      ctx.closePath();
+      return;
+    case "circle":
+      ctx.beginPath();
+      ctx.arc(node.cx, node.cy, node.radius, 0, Math.PI * 2);
+      ctx.fillStyle = node.fill;
+      ctx.fill();
+      return;
+    case "gradient": {
+      const gradient = ctx.createLinearGradient(node.x, node.y, node.x + node.width, node.y + node.height);
+
+      for (const stop of node.stops) {
+        gradient.addColorStop(stop.offset, stop.color);
+      }
+
+      ctx.fillStyle = gradient;
+      ctx.fillRect(node.x, node.y, node.width, node.height);
+      return;
+    }
+    case "text":
+      ctx.font = `${node.fontStyle === "italic" ? "italic " : ""}${node.fontWeight} ${node.fontSize}px \"${node.fontFamily ?? context.fontFamily}\"`;
+      ctx.fillStyle = node.color;
+      ctx.fillText(node.text, node.x, sceneTextBaseline(node, context));
+      return;
+    case "clip":
+      ctx.save();
+      ctx.beginPath();
+      drawRoundedRect(ctx, node.x, node.y, node.width, node.height, node.radius);
+      ctx.clip();
+
+      for (const child of node.children) {
+        drawNode(ctx, child, images, context);
+      }
+
+      ctx.restore();
+      return;
   }
 }
 
-export function drawKitchenSink(
+/** Compiles a scene to immediate-mode calls, in node order, on a context laid out in logical pixels. */
+export function drawScene(
   ctx: Canvas2DLike,
-  canvas: { width: number; height: number },
-  images: {
-    background: { width: number; height: number };
-    avatar: unknown;
-    badge: unknown;
-  },
+  scene: Scene,
+  images: SceneImages<CanvasImageLike>,
   context: BenchContext,
 ): void {
-  drawCoverImage(ctx, canvas, images.background);
-
-  const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
-  gradient.addColorStop(0, "rgba(10, 18, 32, 0.65)");
-  gradient.addColorStop(0.5, "rgba(24, 42, 64, 0.25)");
-  gradient.addColorStop(1, "rgba(8, 12, 20, 0.8)");
-  ctx.fillStyle = gradient;
-  ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-  ctx.save();
-  ctx.beginPath();
-  drawRoundedRect(ctx, 42, 42, 220, 220, 28);
-  ctx.clip();
-  ctx.drawImage(images.avatar, 42, 42, 220, 220);
-  ctx.restore();
-
-  ctx.save();
-  ctx.beginPath();
-  drawRoundedRect(ctx, 288, 64, 120, 120, 24);
-  ctx.clip();
-  ctx.drawImage(images.badge, 288, 64, 120, 120);
-  ctx.restore();
-
-  ctx.beginPath();
-  drawRoundedRect(ctx, 42, 288, canvas.width - 84, 54, 27);
-  ctx.fillStyle = "rgba(31, 41, 55, 0.95)";
-  ctx.fill();
-  ctx.closePath();
-
-  ctx.beginPath();
-  drawRoundedRect(ctx, 42, 288, Math.round((canvas.width - 84) * 0.67), 54, 27);
-  ctx.fillStyle = "#4f91df";
-  ctx.fill();
-  ctx.closePath();
+  ctx.fillStyle = scene.background;
+  ctx.fillRect(0, 0, scene.width, scene.height);
+  // Engines disagree on where `top` is; the alphabetic baseline comes from the font's own metrics.
+  ctx.textBaseline = "alphabetic";
 
-  ctx.beginPath();
-  ctx.arc(canvas.width - 74, 88, 28, 0, Math.PI * 2);
-  ctx.fillStyle = "#f59e0b";
-  ctx.fill();
-
-  ctx.beginPath();
-  ctx.arc(canvas.width - 74, 88, 18, 0, Math.PI * 2);
-  ctx.fillStyle = "#111827";
-  ctx.fill();
-
-  ctx.font = `700 64px \"${context.fontFamily}\"`;
-  ctx.textBaseline = "top";
-  ctx.fillStyle = "#ffffff";
-  ctx.fillText("Image Benchmark Suite", 438, 58);
-
-  ctx.font = `400 30px \"${context.fontFamily}\"`;
-  ctx.fillStyle = "rgba(255, 255, 255, 0.82)";
-  ctx.fillText("buffer | stream | kitchen sink | text layout | format compare", 438, 136);
-
-  ctx.font = `600 44px \"${context.fontFamily}\"`;
-  ctx.fillStyle = "#d1e5ff";
-  ctx.fillText("PNG / WEBP / SVG", 438, 194);
-
-  ctx.font = `400 28px \"${context.fontFamily}\"`;
-  ctx.fillStyle = "#ffffff";
-  ctx.fillText(`samples: ${context.textSamples.length}`, 42, 364);
-
-  ctx.fillText("stream source is in-memory (disk I/O excluded)", 42, 404);
-}
-
-export function measureTextLayout(ctx: Canvas2DLike, context: BenchContext): number {
-  let total = 0;
-
-  ctx.font = `600 40px \"${context.fontFamily}\"`;
-  for (const sample of context.textSamples) {
-    total += ctx.measureText(sample).width;
-  }
-
-  ctx.font = `400 26px \"${context.fontFamily}\"`;
-  for (const sample of context.textSamples) {
-    total += ctx.measureText(`${sample} :: ${sample.length}`).width;
+  for (const node of scene.nodes) {
+    drawNode(ctx, node, images, context);
   }
+}
 
-  return total;
+/**
+ * Measures each sample's lines and places the baseline as a CSS line box would (half the
+ * leading, then the ascent). Canvas has no layout box, so there is no height to report.
+ */
+export function measureTextLayout(ctx: Canvas2DLike, context: BenchContext): TextLayoutSample[] {
+  return textLayoutSpecs(context).map((spec) => {
+    ctx.font = `${spec.fontWeight} ${spec.fontSize}px \"${context.fontFamily}\"`;
+    const metrics = spec.text.split("\n").map((line) => ctx.measureText(line));
+    const first = metrics[0]!;
+
+    return {
+      text: spec.text,
+      width: Math.max(...metrics.map((line) => line.width)),
+      height: null,
+      lines: metrics.length,
+      baseline: lineBoxBaseline(spec.lineHeight, first.fontBoundingBoxAscent, first.fontBoundingBoxDescent),
+    };
+  });
 }
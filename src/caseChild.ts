@@ -0,0 +1,52 @@
+import process from "node:process";
+import { createBenchContext, withOutputSize } from "./context.js";
+import type { IsolatedJob, IsolatedMessage } from "./isolation.js";
+import { prepareRenderer, runCaseOutcome } from "./runner.js";
+import { rendererEntries } from "./workerPool.js";
+
+function send(message: IsolatedMessage): Promise<void> {
+  return new Promise((resolve, reject) => {
+    process.send!(message, undefined, undefined, (error) => (error ? reject(error) : resolve()));
+  });
+}
+
+async function runJob(job: IsolatedJob): Promise<void> {
+  const entry = rendererEntries(job.workerPools).find((candidate) => candidate.name === job.renderer);
+
+  if (!entry) {
+    throw new Error(`Unknown renderer: ${job.renderer}`);
+  }
+
+  const renderer = await entry.load();
+
+  const context = await createBenchContext(job.sizes[0], job.assets, job.encode);
+  await send({ type: "prepared", stats: await prepareRenderer(renderer, context) });
+
+  try {
+    for (const size of job.sizes) {
+      const sizedContext = withOutputSize(context, size);
+
+      for (const task of job.tasks) {
+        await send({ type: "start", renderer: renderer.name, task, size });
+        await send({ type: "outcome", outcome: await runCaseOutcome(task, renderer, job.options, sizedContext) });
+      }
+    }
+  } finally {
+    await renderer.dispose?.();
+  }
+}
+
+if (!process.send) {
+  throw new Error("caseChild must be started by the benchmark runner with an IPC channel");
+}
+
+process.once("message", (job: IsolatedJob) => {
+  runJob(job)
+    .catch(async (error: unknown) => {
+      process.exitCode = 1;
+      await send({ type: "error", message: (error as Error).stack ?? String(error) });
+    })
+    .finally(() => {
+      process.disconnect();
+    });
+});
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { resolve } from "node:path";
+import { describe, it } from "node:test";
+import { matchesNamePattern, parseDevicePixelRatios, parseDuration, parseFontSpecs, parseSizes } from "./cli.js";
+
+describe("parseSizes", () => {
+  const fallback = [{ width: 1280, height: 720, dpr: 1 }];
+
+  it("keeps the given order and drops duplicates", () => {
+    assert.deepEqual(parseSizes("400x209, 1200×630,400X209", fallback), [
+      { width: 400, height: 209, dpr: 1 },
+      { width: 1200, height: 630, dpr: 1 },
+    ]);
+  });
+
+  it("falls back when the flag is not set", () => {
+    assert.equal(parseSizes(undefined, fallback), fallback);
+  });
+
+  it("rejects malformed and empty sizes", () => {
+    assert.throws(() => parseSizes("1200", fallback), /Invalid size "1200"/);
+    assert.throws(() => parseSizes("0x630", fallback), /size width must be a positive integer/);
+    assert.throws(() => parseSizes(" , ", fallback), /at least one/);
+  });
+});
+
+describe("parseDevicePixelRatios", () => {
+  it("reads ratios with an optional x and drops duplicates", () => {
+    assert.deepEqual(parseDevicePixelRatios("1, 2x,1.5,2"), [1, 2, 1.5]);
+  });
+
+  it("defaults to 1x", () => {
+    assert.deepEqual(parseDevicePixelRatios(undefined), [1]);
+  });
+
+  it("rejects ratios that are not positive", () => {
+    assert.throws(() => parseDevicePixelRatios("0"), /dpr must be a positive number/);
+    assert.throws(() => parseDevicePixelRatios(","), /at least one value/);
+  });
+});
+
+describe("parseDuration", () => {
+  it("reads every unit and defaults to seconds", () => {
+    assert.equal(parseDuration("250ms", "max-time"), 250);
+    assert.equal(parseDuration("1.5s", "max-time"), 1_500);
+    assert.equal(parseDuration("2m", "max-time"), 120_000);
+    assert.equal(parseDuration("1h", "max-time"), 3_600_000);
+    assert.equal(parseDuration("3", "max-time"), 3_000);
+  });
+
+  it("is null when the flag is not set", () => {
+    assert.equal(parseDuration(undefined, "max-time"), null);
+  });
+
+  it("rejects zero unless allowed, in any unit", () => {
+    assert.throws(() => parseDuration("0", "max-time"), /max-time must be greater than zero/);
+    assert.throws(() => parseDuration("0ms", "max-time"), /max-time must be greater than zero/);
+    assert.equal(parseDuration("0", "memory-interval", true), 0);
+    assert.equal(parseDuration("0ms", "memory-interval", true), 0);
+  });
+
+  it("rejects unknown units and negative values", () => {
+    assert.throws(() => parseDuration("5d", "max-time"), /must be a duration/);
+    assert.throws(() => parseDuration("-1s", "max-time"), /must be a duration/);
+  });
+});
+
+describe("parseFontSpecs", () => {
+  it("reads family, path, weight and style", () => {
+    assert.deepEqual(parseFontSpecs(["Roboto=fonts/Roboto-Bold.ttf:700:italic"], undefined), [
+      { family: "Roboto", path: resolve("fonts/Roboto-Bold.ttf"), weight: 700, style: "italic" },
+    ]);
+  });
+
+  it("defaults the family, weight and style", () => {
+    assert.deepEqual(parseFontSpecs(["fonts/Inter.ttf"], "Inter"), [
+      { family: "Inter", path: resolve("fonts/Inter.ttf"), weight: 400, style: "normal" },
+    ]);
+  });
+
+  it("is null when the flag is not set", () => {
+    assert.equal(parseFontSpecs(undefined, "Inter"), null);
+  });
+
+  it("needs a family and a weight in range", () => {
+    assert.throws(() => parseFontSpecs(["fonts/Inter.ttf"], undefined), /set --font-family/);
+    assert.throws(() => parseFontSpecs(["Inter=fonts/Inter.ttf:1200"], undefined), /between 1 and 1000/);
+  });
+});
+
+describe("matchesNamePattern", () => {
+  it("matches a plain pattern as a case-insensitive substring", () => {
+    assert.ok(matchesNamePattern("takumi (jsx+style)", "TAKUMI"));
+    assert.ok(!matchesNamePattern("satori (jsx+tw)", "takumi"));
+  });
+
+  it("matches a glob against the whole name", () => {
+    assert.ok(matchesNamePattern("skia-canvas", "*canvas"));
+    assert.ok(!matchesNamePattern("skia-canvas [pool×2]", "*canvas"));
+    assert.ok(matchesNamePattern("node-canvas", "node-canva?"));
+  });
+
+  it("treats regular expression characters literally", () => {
+    assert.ok(matchesNamePattern("takumi (jsx+style)", "takumi (jsx+*"));
+    assert.ok(!matchesNamePattern("takumi jsxxstyle", "takumi*jsx+style"));
+  });
+});
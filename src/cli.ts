@@ -0,0 +1,269 @@
+import { resolve } from "node:path";
+import process from "node:process";
+import { DEFAULT_COMPLEXITY_LEVELS, complexityOf, complexityTask } from "./complexity.js";
+import { ALL_TASKS } from "./tasks.js";
+import type { BenchFont, BenchRenderer, BenchTaskName, OutputSize } from "./types.js";
+
+const DURATION_UNITS_MS = {
+  ms: 1,
+  s: 1_000,
+  m: 60_000,
+  h: 3_600_000,
+};
+
+export function cliArgs(): string[] {
+  return process.argv.slice(2).filter((arg) => arg !== "--");
+}
+
+export function parseInteger(value: string | undefined, fallback: number, label: string): number {
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${label} must be a positive integer`);
+  }
+
+  return parsed;
+}
+
+export function parseIntegerList(value: string | undefined, label: string): number[] | null {
+  if (value === undefined) {
+    return null;
+  }
+
+  const items = value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+  if (items.length === 0) {
+    throw new Error(`${label} requires at least one value`);
+  }
+
+  return items.map((item) => parseInteger(item, 0, label));
+}
+
+export function parseNumber(value: string | undefined, fallback: number, label: string): number {
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const parsed = Number.parseFloat(value);
+
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${label} must be a positive number`);
+  }
+
+  return parsed;
+}
+
+/** Parses `500ms`, `30s`, `2m` or `1h`; a bare number is seconds. Zero is rejected unless `allowZero`. */
+export function parseDuration(value: string | undefined, label: string, allowZero = false): number | null {
+  if (value === undefined) {
+    return null;
+  }
+
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m|h)?$/.exec(value.trim());
+
+  if (!match) {
+    throw new Error(`${label} must be a duration such as 500ms, 30s, 2m or 1h`);
+  }
+
+  const amount = Number.parseFloat(match[1]!);
+  const unit = match[2] ?? "s";
+  const milliseconds = amount * DURATION_UNITS_MS[unit as keyof typeof DURATION_UNITS_MS];
+
+  if (milliseconds === 0 && !allowZero) {
+    throw new Error(`${label} must be greater than zero`);
+  }
+
+  return milliseconds;
+}
+
+/**
+ * Parses `--workload` values. `complexity` expands to one `complexity-N` task per level;
+ * `complexity-N` selects a single level. Complexity tasks are opt-in and not part of the
+ * default set.
+ */
+export function parseTasks(
+  value: string | string[] | undefined,
+  complexityLevels: number[] = DEFAULT_COMPLEXITY_LEVELS,
+): BenchTaskName[] {
+  if (value === undefined) {
+    return ALL_TASKS;
+  }
+
+  const requested = (Array.isArray(value) ? value : [value])
+    .flatMap((item) => item.split(","))
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+  if (requested.length === 0) {
+    throw new Error("--workload requires at least one task name");
+  }
+
+  const expanded = requested.flatMap((item) =>
+    item === "complexity" ? complexityLevels.map((level) => complexityTask(level)) : [item],
+  );
+  const invalid = expanded.filter(
+    (item) => !ALL_TASKS.includes(item as BenchTaskName) && (complexityOf(item as BenchTaskName) ?? 0) <= 0,
+  );
+  if (invalid.length > 0) {
+    throw new Error(`Unknown workload(s): ${invalid.join(", ")}`);
+  }
+
+  return [...new Set(expanded)] as BenchTaskName[];
+}
+
+/**
+ * Parses `400x209,1200x630` into output sizes, keeping the given order and dropping duplicates.
+ */
+export function parseSizes(value: string | undefined, fallback: OutputSize[]): OutputSize[] {
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const items = [
+    ...new Set(
+      value
+        .split(",")
+        .map((item) => item.trim().toLowerCase())
+        .filter(Boolean),
+    ),
+  ];
+
+  if (items.length === 0) {
+    throw new Error("--sizes requires at least one WIDTHxHEIGHT value");
+  }
+
+  return items.map((item) => {
+    const match = /^(\d+)[x×](\d+)$/.exec(item);
+
+    if (!match) {
+      throw new Error(`Invalid size "${item}": expected WIDTHxHEIGHT such as 1200x630`);
+    }
+
+    return {
+      width: parseInteger(match[1], 0, "size width"),
+      height: parseInteger(match[2], 0, "size height"),
+      dpr: 1,
+    };
+  });
+}
+
+/**
+ * Parses `1,2,3` (a trailing `x` is allowed, e.g. `2x`) into device pixel ratios.
+ */
+export function parseDevicePixelRatios(value: string | undefined): number[] {
+  if (value === undefined) {
+    return [1];
+  }
+
+  const items = value
+    .split(",")
+    .map((item) => item.trim().replace(/x$/i, ""))
+    .filter(Boolean);
+
+  if (items.length === 0) {
+    throw new Error("--dpr requires at least one value");
+  }
+
+  return [...new Set(items.map((item) => parseNumber(item, 1, "dpr")))];
+}
+
+const FONT_SPEC_PATTERN = /^(?:([^=]+)=)?(.+?)(?::(\d+))?(?::(normal|italic))?$/;
+
+/** Resolves the path inside a `--font` value against `baseDir`, keeping its family, weight and style. */
+export function resolveFontSpecPath(baseDir: string, spec: string): string {
+  const item = spec.trim();
+  const match = FONT_SPEC_PATTERN.exec(item);
+
+  if (!match) {
+    return item;
+  }
+
+  const prefix = match[1] === undefined ? "" : `${match[1]}=`;
+  return `${prefix}${resolve(baseDir, match[2]!)}${item.slice(prefix.length + match[2]!.length)}`;
+}
+
+/**
+ * Parses `--font` values of the form `[family=]path[:weight[:style]]`, e.g.
+ * `Roboto=fonts/Roboto-Bold.ttf:700` or `fonts/Roboto-Italic.ttf:400:italic`. The family
+ * defaults to `defaultFamily`, the weight to 400 and the style to normal.
+ */
+export function parseFontSpecs(values: string[] | undefined, defaultFamily: string | undefined): BenchFont[] | null {
+  if (values === undefined) {
+    return null;
+  }
+
+  const items = values.map((item) => item.trim()).filter(Boolean);
+
+  if (items.length === 0) {
+    throw new Error("--font requires at least one font file");
+  }
+
+  return items.map((item) => {
+    const match = FONT_SPEC_PATTERN.exec(item);
+    const family = match?.[1]?.trim() ?? defaultFamily;
+
+    if (!match || !family) {
+      throw new Error(`Invalid font "${item}": expected [family=]path[:weight[:style]], or set --font-family`);
+    }
+
+    const weight = parseInteger(match[3], 400, "font weight");
+
+    if (weight > 1000) {
+      throw new Error(`Invalid font "${item}": weight must be between 1 and 1000`);
+    }
+
+    return { family, path: resolve(match[2]!), weight, style: (match[4] ?? "normal") as BenchFont["style"] };
+  });
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replaceAll("*", ".*").replaceAll("?", ".");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * `--renderer`/`--exclude-renderer` patterns: with `*` or `?` a pattern is a glob over the
+ * whole name (`takumi*`, `*canvas`), otherwise a substring. Both ignore case.
+ */
+export function matchesNamePattern(name: string, pattern: string): boolean {
+  return /[*?]/.test(pattern) ? globToRegExp(pattern).test(name) : name.toLowerCase().includes(pattern.toLowerCase());
+}
+
+/** Applies `--renderer` patterns (null keeps all), then `--exclude-renderer` patterns. */
+export function selectRenderers<T extends Pick<BenchRenderer, "name">>(
+  all: readonly T[],
+  include: string[] | null,
+  exclude: string[],
+): T[] {
+  const names = all.map((renderer) => renderer.name).join(", ");
+
+  for (const [flag, patterns] of [
+    ["--renderer", include ?? []],
+    ["--exclude-renderer", exclude],
+  ] as const) {
+    const unmatched = patterns.filter((pattern) => !all.some((renderer) => matchesNamePattern(renderer.name, pattern)));
+
+    if (unmatched.length > 0) {
+      throw new Error(`${flag} ${unmatched.join(", ")} matches no renderer; available: ${names}`);
+    }
+  }
+
+  const selected = all.filter(
+    (renderer) =>
+      (include === null || include.some((pattern) => matchesNamePattern(renderer.name, pattern))) &&
+      !exclude.some((pattern) => matchesNamePattern(renderer.name, pattern)),
+  );
+
+  if (selected.length === 0) {
+    throw new Error(`The renderer selection excludes every renderer; available: ${names}`);
+  }
+
+  return selected;
+}
@@ -0,0 +1,273 @@
+import { fork } from "node:child_process";
+import { mkdir, writeFile } from "node:fs/promises";
+import os from "node:os";
+import { dirname, join, resolve } from "node:path";
+import process from "node:process";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { cliArgs, parseInteger, parseTasks, selectRenderers } from "./cli.js";
+import { rendererLoaders } from "./renderers/loaders.js";
+import type { BenchCaseSkip, BenchTaskName, ColdStartJob, ColdStartMessage, ColdStartSample } from "./types.js";
+import { mean, median, percentile, round, standardDeviation } from "./utils.js";
+
+const childEntryPath = fileURLToPath(new URL("./coldStartChild.js", import.meta.url));
+
+const METRICS: Array<{ key: keyof ColdStartSample; label: string }> = [
+  { key: "bootMs", label: "Node boot" },
+  { key: "moduleLoadMs", label: "Module load" },
+  { key: "prepareMs", label: "Prepare" },
+  { key: "firstRenderMs", label: "First render" },
+  { key: "timeToFirstImageMs", label: "Time to first image" },
+];
+
+interface MetricSummary {
+  avg: number;
+  median: number;
+  p95: number;
+  min: number;
+  max: number;
+  stdDev: number;
+}
+
+interface ColdStartStats {
+  renderer: string;
+  task: BenchTaskName;
+  runs: number;
+  metrics: Record<keyof ColdStartSample, MetricSummary>;
+}
+
+function spawnColdStart(job: ColdStartJob): Promise<ColdStartMessage> {
+  return new Promise((resolve, reject) => {
+    const child = fork(childEntryPath, [], {
+      serialization: "advanced",
+      stdio: ["ignore", "inherit", "inherit", "ipc"],
+    });
+
+    let message: ColdStartMessage | null = null;
+
+    child.on("message", (received: ColdStartMessage) => {
+      message = received;
+    });
+    child.once("error", reject);
+    child.once("exit", (code, signal) => {
+      if (message) {
+        resolve(message);
+      } else {
+        reject(new Error(`${job.renderer} cold start exited with ${signal ?? `code ${code}`} before reporting`));
+      }
+    });
+
+    child.send(job);
+  });
+}
+
+function summarize(values: number[]): MetricSummary {
+  return {
+    avg: round(mean(values)),
+    median: round(median(values)),
+    p95: round(percentile(values, 0.95)),
+    min: round(Math.min(...values)),
+    max: round(Math.max(...values)),
+    stdDev: round(standardDeviation(values)),
+  };
+}
+
+function buildMarkdownReport(
+  tasks: BenchTaskName[],
+  runs: number,
+  stats: ColdStartStats[],
+  skipped: BenchCaseSkip[],
+  failed: BenchCaseSkip[],
+): string {
+  const lines: string[] = [];
+
+  lines.push("# Node Image Library Cold-Start Report");
+  lines.push("");
+  lines.push(`Generated: ${new Date().toISOString()}`);
+  lines.push(`- Node.js: ${process.version}`);
+  lines.push(`- Platform: ${process.platform} ${process.arch}`);
+  lines.push(`- CPU: ${os.cpus()[0]?.model ?? "unknown"}`);
+  lines.push(`- Spawns per renderer/workload: ${runs}`);
+  lines.push("");
+  lines.push("## Method");
+  lines.push("");
+  lines.push("- Every sample is a freshly forked Node process that loads one renderer module, prepares it and produces one output.");
+  lines.push("- `Module load` is the dynamic import of the renderer module and its image library; `Prepare` covers font registration and engine creation.");
+  lines.push("- `Time to first image` is measured from process start, so it includes Node boot and fixture loading.");
+  lines.push("- Spawns are interleaved across renderers to spread machine noise evenly.");
+  lines.push("");
+
+  for (const task of tasks) {
+    const rows = stats
+      .filter((entry) => entry.task === task)
+      .sort((left, right) => left.metrics.timeToFirstImageMs.avg - right.metrics.timeToFirstImageMs.avg);
+
+    lines.push(`## ${task}`);
+    lines.push("");
+
+    if (rows.length === 0) {
+      lines.push("No successful runs.");
+      lines.push("");
+      continue;
+    }
+
+    lines.push(`| Renderer | ${METRICS.map((metric) => `${metric.label} avg (ms)`).join(" | ")} | Time to first image p95 (ms) | RSS (MB) |`);
+    lines.push(`|---|${METRICS.map(() => "---:").join("|")}|---:|---:|`);
+
+    for (const row of rows) {
+      const averages = METRICS.map((metric) => row.metrics[metric.key].avg.toFixed(3));
+      lines.push(
+        `| ${row.renderer} | ${averages.join(" | ")} | ${row.metrics.timeToFirstImageMs.p95.toFixed(3)} | ${row.metrics.rssMb.avg.toFixed(1)} |`,
+      );
+    }
+
+    lines.push("");
+  }
+
+  if (skipped.length > 0) {
+    lines.push("## Unsupported / Skipped");
+    lines.push("");
+    lines.push("| Renderer | Task | Reason |");
+    lines.push("|---|---|---|");
+
+    for (const skip of skipped) {
+      lines.push(`| ${skip.renderer} | ${skip.task} | ${skip.reason.replaceAll("|", "\\|")} |`);
+    }
+
+    lines.push("");
+  }
+
+  if (failed.length > 0) {
+    lines.push("## Failed");
+    lines.push("");
+    lines.push("A renderer that fails to load, prepare or render is not spawned again for that workload.");
+    lines.push("");
+    lines.push("| Renderer | Task | Reason |");
+    lines.push("|---|---|---|");
+
+    for (const failure of failed) {
+      lines.push(`| ${failure.renderer} | ${failure.task} | ${failure.reason.replaceAll("|", "\\|")} |`);
+    }
+
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+const { values } = parseArgs({
+  args: cliArgs(),
+  options: {
+    workload: { type: "string", multiple: true },
+    runs: { type: "string" },
+    renderer: { type: "string", multiple: true },
+    "exclude-renderer": { type: "string", multiple: true },
+    "report-json": { type: "string" },
+    "report-markdown": { type: "string" },
+  },
+  strict: true,
+  allowPositionals: false,
+});
+
+const tasks = values.workload === undefined ? (["encode-png"] as BenchTaskName[]) : parseTasks(values.workload);
+const runs = parseInteger(values.runs ?? process.env.BENCH_COLD_RUNS, 10, "runs");
+const renderers = selectRenderers(
+  Object.keys(rendererLoaders).map((name) => ({ name })),
+  values.renderer ?? null,
+  values["exclude-renderer"] ?? [],
+).map((entry) => entry.name);
+const samples = new Map<string, ColdStartSample[]>();
+const skipped: BenchCaseSkip[] = [];
+const failed: BenchCaseSkip[] = [];
+
+for (let run = 0; run < runs; run += 1) {
+  for (const task of tasks) {
+    for (const renderer of renderers) {
+      const key = `${renderer} :: ${task}`;
+
+      if ([...skipped, ...failed].some((entry) => entry.renderer === renderer && entry.task === task)) {
+        continue;
+      }
+
+      process.stdout.write(`cold start ${run + 1}/${runs} ${renderer} :: ${task} ... `);
+      // A renderer whose library cannot load here fails on its own; the others still run.
+      const message = await spawnColdStart({ renderer, task }).catch(
+        (error: unknown): ColdStartMessage => ({ type: "error", message: (error as Error).message }),
+      );
+
+      if (message.type === "error") {
+        console.log("failed");
+        console.error(message.message);
+        failed.push({ renderer, task, reason: message.message.split("\n")[0]! });
+        continue;
+      }
+
+      if (message.type === "skipped") {
+        skipped.push({ renderer, task, reason: message.reason });
+        console.log("skipped");
+        continue;
+      }
+
+      samples.set(key, [...(samples.get(key) ?? []), message.sample]);
+      console.log(`first image ${message.sample.timeToFirstImageMs.toFixed(1)} ms`);
+    }
+  }
+}
+
+const stats: ColdStartStats[] = [];
+
+for (const task of tasks) {
+  for (const renderer of renderers) {
+    const caseSamples = samples.get(`${renderer} :: ${task}`);
+
+    if (!caseSamples || caseSamples.length === 0) {
+      continue;
+    }
+
+    const keys = Object.keys(caseSamples[0]!) as Array<keyof ColdStartSample>;
+    stats.push({
+      renderer,
+      task,
+      runs: caseSamples.length,
+      metrics: Object.fromEntries(
+        keys.map((key) => [key, summarize(caseSamples.map((sample) => sample[key]))]),
+      ) as ColdStartStats["metrics"],
+    });
+  }
+}
+
+const reportJsonPath = resolve(values["report-json"] ?? join("outputs", "cold-start-report.json"));
+const reportMarkdownPath = resolve(values["report-markdown"] ?? join("outputs", "cold-start-report.md"));
+
+await mkdir(dirname(reportJsonPath), { recursive: true });
+await mkdir(dirname(reportMarkdownPath), { recursive: true });
+await Promise.all([
+  writeFile(
+    reportJsonPath,
+    `${JSON.stringify(
+      {
+        generatedAt: new Date().toISOString(),
+        node: process.version,
+        platform: `${process.platform}-${process.arch}`,
+        cpu: os.cpus()[0]?.model ?? "unknown",
+        tasks,
+        runs,
+        stats,
+        skipped,
+        failed,
+        samples: Object.fromEntries(samples),
+      },
+      null,
+      2,
+    )}\n`,
+  ),
+  writeFile(reportMarkdownPath, buildMarkdownReport(tasks, runs, stats, skipped, failed)),
+]);
+
+console.log(`\nWrote JSON report: ${reportJsonPath}`);
+console.log(`Wrote Markdown report: ${reportMarkdownPath}`);
+
+if (failed.length > 0) {
+  console.error(`\n${failed.length} renderer/workload cold start(s) failed; see the Failed section of the report`);
+  process.exitCode = 1;
+}
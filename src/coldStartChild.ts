@@ -0,0 +1,72 @@
+import process from "node:process";
+import { createBenchContext } from "./context.js";
+import { rendererLoaders } from "./renderers/loaders.js";
+import type { ColdStartJob, ColdStartMessage } from "./types.js";
+import { UnsupportedTaskError, formatMb } from "./utils.js";
+
+// performance.now() is relative to process start, so this is the Node bootstrap cost up
+// to the first line of this entry.
+const bootMs = performance.now();
+
+function send(message: ColdStartMessage): Promise<void> {
+  return new Promise((resolve, reject) => {
+    process.send!(message, undefined, undefined, (error) => (error ? reject(error) : resolve()));
+  });
+}
+
+async function runJob(job: ColdStartJob): Promise<ColdStartMessage> {
+  const loadRenderer = rendererLoaders[job.renderer];
+
+  if (!loadRenderer) {
+    throw new Error(`Unknown renderer: ${job.renderer}`);
+  }
+
+  const contextStart = performance.now();
+  const context = await createBenchContext();
+  const moduleStart = performance.now();
+  const renderer = await loadRenderer();
+  const prepareStart = performance.now();
+  await renderer.prepare?.(context);
+  const renderStart = performance.now();
+
+  try {
+    await renderer.run(context, job.task);
+  } catch (error) {
+    if (error instanceof UnsupportedTaskError) {
+      return { type: "skipped", reason: error.message };
+    }
+
+    throw error;
+  }
+
+  const end = performance.now();
+
+  return {
+    type: "sample",
+    sample: {
+      bootMs,
+      contextMs: moduleStart - contextStart,
+      moduleLoadMs: prepareStart - moduleStart,
+      prepareMs: renderStart - prepareStart,
+      firstRenderMs: end - renderStart,
+      timeToFirstImageMs: end,
+      rssMb: formatMb(process.memoryUsage().rss),
+    },
+  };
+}
+
+if (!process.send) {
+  throw new Error("coldStartChild must be started by the cold-start runner with an IPC channel");
+}
+
+process.once("message", (job: ColdStartJob) => {
+  runJob(job)
+    .catch((error: unknown): ColdStartMessage => {
+      process.exitCode = 1;
+      return { type: "error", message: (error as Error).stack ?? String(error) };
+    })
+    .then(send)
+    .finally(() => {
+      process.disconnect();
+    });
+});
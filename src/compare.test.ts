@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { compareWithBaseline, isSameCase } from "./compare.js";
+import type { BenchCaseStats } from "./types.js";
+
+/** The fields the comparison reads; the rest of a case's stats do not take part. */
+function caseStats(overrides: Partial<BenchCaseStats> = {}): BenchCaseStats {
+  return {
+    renderer: "takumi (jsx+style)",
+    task: "kitchen-sink",
+    width: 1280,
+    height: 720,
+    dpr: 1,
+    workloadVersion: 1,
+    avgMs: 10,
+    medianMs: 10,
+    p95Ms: 12,
+    ci95LowMs: 9.5,
+    ci95HighMs: 10.5,
+    rssPeakDeltaMb: 50,
+    outputKind: "image",
+    outputAverage: 100_000,
+    ...overrides,
+  } as BenchCaseStats;
+}
+
+function verdicts(current: BenchCaseStats, baseline: Partial<BenchCaseStats>, threshold = 0.1) {
+  return compareWithBaseline([current], { stats: [caseStats(baseline)] }, "baseline.json", threshold).rows.map(
+    (row) => row.verdict,
+  );
+}
+
+describe("compareWithBaseline", () => {
+  it("flags a slowdown past the threshold with disjoint intervals as a regression", () => {
+    const comparison = compareWithBaseline(
+      [caseStats({ medianMs: 12, avgMs: 12, p95Ms: 15, ci95LowMs: 11.5, ci95HighMs: 12.5 })],
+      { stats: [caseStats()] },
+      "baseline.json",
+      0.1,
+    );
+
+    assert.equal(comparison.regressions, 1);
+    assert.equal(comparison.rows[0]!.medianChangePct, 20);
+    assert.equal(comparison.rows[0]!.p95ChangePct, 25);
+    assert.equal(comparison.rows[0]!.verdict, "regression");
+  });
+
+  it("reports a speedup past the threshold as an improvement", () => {
+    assert.deepEqual(verdicts(caseStats({ medianMs: 8, ci95LowMs: 7.5, ci95HighMs: 8.5 }), {}), ["improvement"]);
+  });
+
+  it("leaves changes under the threshold unchanged", () => {
+    assert.deepEqual(verdicts(caseStats({ medianMs: 10.5, ci95LowMs: 10.6, ci95HighMs: 11 }), {}), ["unchanged"]);
+  });
+
+  it("gates on the median, so outliers that only move the average do not count", () => {
+    assert.deepEqual(verdicts(caseStats({ avgMs: 13, p95Ms: 30, ci95LowMs: 11, ci95HighMs: 15 }), {}), ["unchanged"]);
+  });
+
+  it("uses the average for baselines without a median", () => {
+    const current = caseStats({ medianMs: 10, avgMs: 12, ci95LowMs: 11.5, ci95HighMs: 12.5 });
+    assert.deepEqual(verdicts(current, { medianMs: undefined }), ["regression"]);
+  });
+
+  it("calls a change past the threshold noise when the intervals overlap", () => {
+    assert.deepEqual(verdicts(caseStats({ medianMs: 12, ci95LowMs: 10, ci95HighMs: 14 }), {}), ["noise"]);
+  });
+
+  it("falls back to the threshold alone for baselines without intervals", () => {
+    const current = caseStats({ medianMs: 12, ci95LowMs: 10, ci95HighMs: 14 });
+    assert.deepEqual(verdicts(current, { ci95LowMs: undefined, ci95HighMs: undefined }), ["regression"]);
+  });
+
+  it("marks cases the baseline does not have as new", () => {
+    assert.deepEqual(verdicts(caseStats({ width: 1920, height: 1080 }), {}), ["new"]);
+    assert.deepEqual(verdicts(caseStats({ workloadVersion: 2 }), {}), ["new"]);
+  });
+});
+
+describe("isSameCase", () => {
+  it("treats a missing size as the default size and a missing version as version 1", () => {
+    const legacy = { renderer: "skia-canvas", task: "encode-png" } as const;
+
+    assert.ok(isSameCase(legacy, caseStats({ renderer: "skia-canvas", task: "encode-png" })));
+    assert.ok(!isSameCase(legacy, caseStats({ renderer: "skia-canvas", task: "encode-png", height: 630 })));
+    assert.ok(!isSameCase(legacy, caseStats({ renderer: "skia-canvas", task: "encode-png", dpr: 2 })));
+    assert.ok(!isSameCase(legacy, caseStats({ renderer: "skia-canvas", task: "encode-png", workloadVersion: 2 })));
+  });
+});
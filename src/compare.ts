@@ -0,0 +1,202 @@
+import { readFile } from "node:fs/promises";
+import { DEFAULT_OUTPUT_SIZE } from "./context.js";
+import type { BenchCaseStats, BenchTaskName, OutputSize } from "./types.js";
+import { formatSize, round } from "./utils.js";
+
+export type ComparisonVerdict = "regression" | "improvement" | "unchanged" | "noise" | "new";
+
+export interface ComparisonRow {
+  renderer: string;
+  task: BenchTaskName;
+  /** Output size as `WIDTHxHEIGHT`. */
+  size: string;
+  /** Percent changes relative to the baseline; null when the baseline value is missing or zero. */
+  medianChangePct: number | null;
+  avgChangePct: number | null;
+  p95ChangePct: number | null;
+  rssChangePct: number | null;
+  outputChangePct: number | null;
+  /** Whether the two bootstrap 95% CIs are disjoint; null when either report lacks CIs. */
+  significant: boolean | null;
+  verdict: ComparisonVerdict;
+}
+
+export interface BenchComparison {
+  baselinePath: string;
+  baselineGeneratedAt: string | null;
+  threshold: number;
+  rows: ComparisonRow[];
+  regressions: number;
+}
+
+interface BaselineReport {
+  generatedAt?: string;
+  stats: Array<Partial<BenchCaseStats> & Pick<BenchCaseStats, "renderer" | "task" | "avgMs">>;
+}
+
+export async function loadBaselineReport(path: string): Promise<BaselineReport> {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(await readFile(path, "utf8"));
+  } catch (error) {
+    throw new Error(`Could not read baseline report ${path}: ${(error as Error).message}`);
+  }
+
+  if (!parsed || typeof parsed !== "object" || !Array.isArray((parsed as BaselineReport).stats)) {
+    throw new Error(`Baseline report ${path} has no "stats" array`);
+  }
+
+  return parsed as BaselineReport;
+}
+
+function percentChange(current: number | undefined, baseline: number | undefined): number | null {
+  if (current === undefined || baseline === undefined || baseline === 0) {
+    return null;
+  }
+
+  return round(((current - baseline) / Math.abs(baseline)) * 100, 2);
+}
+
+function intervalsDisjoint(
+  current: BenchCaseStats,
+  baseline: BaselineReport["stats"][number],
+): boolean | null {
+  if (baseline.ci95LowMs === undefined || baseline.ci95HighMs === undefined) {
+    return null;
+  }
+
+  return current.ci95LowMs > baseline.ci95HighMs || current.ci95HighMs < baseline.ci95LowMs;
+}
+
+/**
+ * A latency change only counts as a regression/improvement when the median moved by more
+ * than `threshold` (fraction of the baseline median), so a few slow outliers cannot trip it
+ * alone, and the confidence intervals do not overlap. Older baselines without medians use the
+ * average, and those without CIs fall back to the threshold alone.
+ */
+function verdictFor(changePct: number | null, significant: boolean | null, threshold: number): ComparisonVerdict {
+  if (changePct === null || Math.abs(changePct) < threshold * 100) {
+    return "unchanged";
+  }
+
+  if (significant === false) {
+    return "noise";
+  }
+
+  return changePct > 0 ? "regression" : "improvement";
+}
+
+type CaseIdentity = Pick<BenchCaseStats, "renderer" | "task"> &
+  Partial<OutputSize> &
+  Partial<Pick<BenchCaseStats, "workloadVersion">>;
+
+/**
+ * Matches a case across runs by renderer, task, workload version and output size. Reports
+ * written before output sizes were recorded ran at the default 1280×720, 1x, and those
+ * written before workloads were versioned ran version 1.
+ */
+export function isSameCase(left: CaseIdentity, right: CaseIdentity): boolean {
+  return (
+    left.renderer === right.renderer &&
+    left.task === right.task &&
+    (left.workloadVersion ?? 1) === (right.workloadVersion ?? 1) &&
+    (left.width ?? DEFAULT_OUTPUT_SIZE.width) === (right.width ?? DEFAULT_OUTPUT_SIZE.width) &&
+    (left.height ?? DEFAULT_OUTPUT_SIZE.height) === (right.height ?? DEFAULT_OUTPUT_SIZE.height) &&
+    (left.dpr ?? DEFAULT_OUTPUT_SIZE.dpr) === (right.dpr ?? DEFAULT_OUTPUT_SIZE.dpr)
+  );
+}
+
+export function compareWithBaseline(
+  stats: BenchCaseStats[],
+  baseline: BaselineReport,
+  baselinePath: string,
+  threshold: number,
+): BenchComparison {
+  const rows = stats.map((current): ComparisonRow => {
+    const previous = baseline.stats.find((entry) => isSameCase(entry, current));
+
+    if (!previous) {
+      return {
+        renderer: current.renderer,
+        task: current.task,
+        size: formatSize(current),
+        medianChangePct: null,
+        avgChangePct: null,
+        p95ChangePct: null,
+        rssChangePct: null,
+        outputChangePct: null,
+        significant: null,
+        verdict: "new",
+      };
+    }
+
+    const medianChangePct = percentChange(current.medianMs, previous.medianMs);
+    const avgChangePct = percentChange(current.avgMs, previous.avgMs);
+    const significant = intervalsDisjoint(current, previous);
+
+    return {
+      renderer: current.renderer,
+      task: current.task,
+      size: formatSize(current),
+      medianChangePct,
+      avgChangePct,
+      p95ChangePct: percentChange(current.p95Ms, previous.p95Ms),
+      rssChangePct: percentChange(current.rssPeakDeltaMb, previous.rssPeakDeltaMb),
+      outputChangePct:
+        current.outputKind === "image" ? percentChange(current.outputAverage, previous.outputAverage) : null,
+      significant,
+      verdict: verdictFor(previous.medianMs === undefined ? avgChangePct : medianChangePct, significant, threshold),
+    };
+  });
+
+  return {
+    baselinePath,
+    baselineGeneratedAt: baseline.generatedAt ?? null,
+    threshold,
+    rows,
+    regressions: rows.filter((row) => row.verdict === "regression").length,
+  };
+}
+
+function formatChange(value: number | null): string {
+  if (value === null) {
+    return "n/a";
+  }
+
+  return `${value > 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
+function formatSignificance(value: boolean | null): string {
+  if (value === null) {
+    return "n/a";
+  }
+
+  return value ? "yes" : "no";
+}
+
+export function buildComparisonMarkdown(comparison: BenchComparison): string[] {
+  const lines: string[] = [];
+
+  lines.push("## Comparison vs Baseline");
+  lines.push("");
+  lines.push(`- Baseline: ${comparison.baselinePath.replaceAll("|", "\\|")}`);
+  lines.push(`- Baseline generated: ${comparison.baselineGeneratedAt ?? "unknown"}`);
+  lines.push(
+    `- Regression threshold: ${round(comparison.threshold * 100, 2)}% of baseline median, with disjoint 95% CIs`,
+  );
+  lines.push(`- Regressions: ${comparison.regressions}`);
+  lines.push("");
+  lines.push("| Renderer | Task | Size | Median Δ | P95 Δ | Avg Δ | RSS peak Δ | Output size Δ | CIs disjoint | Verdict |");
+  lines.push("|---|---|---|---:|---:|---:|---:|---:|---|---|");
+
+  for (const row of comparison.rows) {
+    const verdict = row.verdict === "regression" ? "**regression**" : row.verdict;
+    lines.push(
+      `| ${row.renderer} | ${row.task} | ${row.size} | ${formatChange(row.medianChangePct)} | ${formatChange(row.p95ChangePct)} | ${formatChange(row.avgChangePct)} | ${formatChange(row.rssChangePct)} | ${formatChange(row.outputChangePct)} | ${formatSignificance(row.significant)} | ${verdict} |`,
+    );
+  }
+
+  lines.push("");
+  return lines;
+}
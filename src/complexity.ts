@@ -0,0 +1,134 @@
+import { linearRegression } from "./soak.js";
+import type { BenchCaseStats, BenchTaskName } from "./types.js";
+import { round } from "./utils.js";
+
+export const DEFAULT_COMPLEXITY_LEVELS = [10, 100, 1_000, 5_000];
+
+export type ComplexityElementKind = "rect" | "image" | "gradient" | "text";
+
+const ELEMENT_KINDS: ComplexityElementKind[] = ["rect", "image", "gradient", "text"];
+const PALETTE = ["#4f91df", "#f59e0b", "#10b981", "#ef4444", "#8b5cf6", "#ec4899", "#14b8a6", "#eab308"];
+
+export interface ComplexityGrid {
+  columns: number;
+  rows: number;
+  /** Pitch of one grid cell in logical pixels. */
+  cell: number;
+  /** Margin around each element inside its cell. */
+  inset: number;
+  /** Edge length of each (square) element. */
+  size: number;
+}
+
+export function complexityTask(count: number): BenchTaskName {
+  return `complexity-${count}`;
+}
+
+/** Element count of a `complexity-N` task, or null for every other task. */
+export function complexityOf(task: BenchTaskName): number | null {
+  const match = /^complexity-(\d+)$/.exec(task);
+  return match ? Number.parseInt(match[1]!, 10) : null;
+}
+
+/**
+ * Lays `count` square elements out on a grid that fills `width`×`height` as evenly as the
+ * aspect ratio allows; `complexity-N` scenes position every element from it.
+ */
+export function complexityGrid(width: number, height: number, count: number): ComplexityGrid {
+  const columns = Math.max(1, Math.ceil(Math.sqrt((count * width) / height)));
+  const rows = Math.ceil(count / columns);
+  const cell = Math.max(2, Math.floor(Math.min(width / columns, height / rows)));
+  const inset = Math.max(1, Math.floor(cell * 0.08));
+
+  return { columns, rows, cell, inset, size: cell - inset * 2 };
+}
+
+/** Element kinds cycle rect → image → gradient → text so every N has the same mix. */
+export function complexityElementKind(index: number): ComplexityElementKind {
+  return ELEMENT_KINDS[index % ELEMENT_KINDS.length]!;
+}
+
+export function complexityColor(index: number): string {
+  return PALETTE[index % PALETTE.length]!;
+}
+
+interface ComplexityFit {
+  fixedMs: number;
+  perElementUs: number;
+  r2: number;
+}
+
+function fitCost(rows: BenchCaseStats[]): ComplexityFit | null {
+  if (rows.length < 2) {
+    return null;
+  }
+
+  const fit = linearRegression(
+    rows.map((row) => complexityOf(row.task)!),
+    rows.map((row) => row.avgMs),
+  );
+
+  return { fixedMs: round(fit.intercept), perElementUs: round(fit.slope * 1_000), r2: round(fit.r2, 3) };
+}
+
+/**
+ * Per-renderer scaling curve across element counts: average and marginal cost per element,
+ * plus a linear fit of latency against N (fixed cost + per-element cost).
+ */
+export function buildComplexityMarkdown(
+  stats: BenchCaseStats[],
+  label: (row: BenchCaseStats) => string,
+): string[] {
+  const rows = stats.filter((entry) => complexityOf(entry.task) !== null);
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const groups = new Map<string, BenchCaseStats[]>();
+
+  for (const row of rows) {
+    groups.set(label(row), [...(groups.get(label(row)) ?? []), row]);
+  }
+
+  const lines: string[] = [];
+  lines.push("## Scene Complexity");
+  lines.push("");
+  lines.push(
+    "- `complexity-N` draws N elements (rounded rects, images, gradients and text, in equal shares) on a grid. Canvas renderers draw them with immediate-mode calls; satori/takumi compile the same scene to N absolutely positioned JSX elements.",
+  );
+  lines.push("- Marginal cost is the extra time per added element relative to the previous N.");
+  lines.push("");
+  lines.push("| Renderer | N | Avg (ms) | µs / element | Marginal µs / element | Output |");
+  lines.push("|---|---:|---:|---:|---:|---:|");
+
+  for (const [name, group] of groups) {
+    const sorted = group.sort((left, right) => complexityOf(left.task)! - complexityOf(right.task)!);
+
+    sorted.forEach((row, index) => {
+      const count = complexityOf(row.task)!;
+      const previous = sorted[index - 1];
+      const marginal = previous
+        ? (((row.avgMs - previous.avgMs) / (count - complexityOf(previous.task)!)) * 1_000).toFixed(3)
+        : "-";
+      lines.push(
+        `| ${name} | ${count} | ${row.avgMs.toFixed(3)} | ${((row.avgMs / count) * 1_000).toFixed(3)} | ${marginal} | ${round(row.outputAverage / 1024, 2)} KB |`,
+      );
+    });
+  }
+
+  lines.push("");
+  lines.push("| Renderer | Fixed cost (ms) | Per element (µs) | r² |");
+  lines.push("|---|---:|---:|---:|");
+
+  for (const [name, group] of groups) {
+    const fit = fitCost(group);
+
+    if (fit) {
+      lines.push(`| ${name} | ${fit.fixedMs.toFixed(3)} | ${fit.perElementUs.toFixed(3)} | ${fit.r2.toFixed(3)} |`);
+    }
+  }
+
+  lines.push("");
+  return lines;
+}
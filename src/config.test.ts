@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import { join, resolve } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { type FlagSpec, applyNegatedFlags, loadBenchConfig, negatedFlags } from "./config.js";
+
+const flags: Record<string, FlagSpec> = {
+  config: { type: "string" },
+  profile: { type: "string" },
+  "max-cv": { type: "string" },
+  sizes: { type: "string" },
+  renderer: { type: "string", multiple: true },
+  scene: { type: "string", multiple: true },
+  "report-json": { type: "string" },
+  "skip-history": { type: "boolean" },
+};
+
+describe("loadBenchConfig", () => {
+  let dir = "";
+
+  async function writeConfig(name: string, config: unknown): Promise<string> {
+    const path = join(dir, name);
+    await writeFile(path, JSON.stringify(config));
+    return path;
+  }
+
+  before(async () => {
+    dir = await mkdtemp(join(os.tmpdir(), "bench-config-"));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("maps camelCase keys to flags and joins lists for comma-separated flags", async () => {
+    const path = await writeConfig("keys.json", {
+      maxCv: 0.05,
+      sizes: ["400x209", "1200x630"],
+      renderer: ["skia-canvas", "takumi*"],
+      skipHistory: true,
+    });
+
+    assert.deepEqual((await loadBenchConfig(path, undefined, flags)).values, {
+      "max-cv": "0.05",
+      sizes: "400x209,1200x630",
+      renderer: ["skia-canvas", "takumi*"],
+      "skip-history": true,
+    });
+  });
+
+  it("overlays the selected profile on the top-level options", async () => {
+    const path = await writeConfig("profiles.json", {
+      maxCv: 0.05,
+      sizes: "1280x720",
+      profiles: { quick: { sizes: "400x209", skipHistory: true } },
+    });
+    const loaded = await loadBenchConfig(path, "quick", flags);
+
+    assert.equal(loaded.profile, "quick");
+    assert.deepEqual(loaded.values, { "max-cv": "0.05", sizes: "400x209", "skip-history": true });
+  });
+
+  it("rejects unknown keys, wrong types and unknown profiles", async () => {
+    const unknownKey = await writeConfig("unknown.json", { maxCV: 0.05 });
+    const wrongType = await writeConfig("type.json", { skipHistory: "yes" });
+    const badProfile = await writeConfig("bad-profile.json", { profiles: { quick: { iterations: 3 } } });
+    const noProfile = await writeConfig("no-profile.json", { profiles: { quick: {} } });
+
+    await assert.rejects(loadBenchConfig(unknownKey, undefined, flags), /unknown option "maxCV"/);
+    await assert.rejects(loadBenchConfig(wrongType, undefined, flags), /"skipHistory" must be true or false/);
+    // Every profile is validated, not only the selected one.
+    await assert.rejects(loadBenchConfig(badProfile, undefined, flags), /profile "quick": unknown option "iterations"/);
+    await assert.rejects(loadBenchConfig(noProfile, "full", flags), /unknown profile "full"; expected one of quick/);
+  });
+
+  it("resolves path options against the config file's directory", async () => {
+    const path = await writeConfig("paths.json", {
+      reportJson: "out/report.json",
+      scene: ["scenes/card.json", "/abs/banner.tsx"],
+      profiles: { ci: { reportJson: "../ci.json" } },
+    });
+    const paths = { scene: resolve, "report-json": resolve };
+
+    assert.deepEqual((await loadBenchConfig(path, undefined, flags, paths)).values, {
+      "report-json": join(dir, "out", "report.json"),
+      scene: [join(dir, "scenes", "card.json"), "/abs/banner.tsx"],
+    });
+    const ci = await loadBenchConfig(path, "ci", flags, paths);
+    assert.equal(ci.values["report-json"], resolve(dir, "..", "ci.json"));
+  });
+
+  it("does not let a config pick another config or profile", async () => {
+    const path = await writeConfig("nested.json", { profile: "quick" });
+    await assert.rejects(loadBenchConfig(path, undefined, flags), /unknown option "profile"/);
+  });
+});
+
+describe("negated flags", () => {
+  it("adds a no- switch for each boolean flag", () => {
+    assert.deepEqual(negatedFlags(flags), { "no-skip-history": { type: "boolean" } });
+  });
+
+  it("turns no- switches into false so they override a config", () => {
+    assert.deepEqual(applyNegatedFlags({ "no-skip-history": true, "max-cv": "0.1" }), {
+      "skip-history": false,
+      "max-cv": "0.1",
+    });
+    assert.throws(() => applyNegatedFlags({ "skip-history": true, "no-skip-history": true }), /cannot be combined/);
+  });
+});
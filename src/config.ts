@@ -0,0 +1,216 @@
+import { access, readFile } from "node:fs/promises";
+import { dirname, extname, resolve } from "node:path";
+import { importSourceModule } from "./io.js";
+
+export const DEFAULT_CONFIG_PATH = "bench.config.json";
+
+/** A scalar, list or switch for one CLI flag; keys are the flag names in camelCase. */
+export type BenchConfigValue = string | number | boolean | Array<string | number>;
+
+export type BenchConfig = Record<string, BenchConfigValue>;
+
+/** Top-level keys apply to every run; a `--profile` overlays one of `profiles` on them. */
+export interface BenchConfigFile extends Record<string, unknown> {
+  profiles?: Record<string, BenchConfig>;
+}
+
+/** Flag values in the shape `parseArgs` returns them. */
+export type FlagValues = Record<string, string | string[] | boolean | undefined>;
+
+export interface FlagSpec {
+  type: "string" | "boolean";
+  multiple?: boolean;
+}
+
+/** Resolves a path-valued option from a config against the config file's directory. */
+export type ConfigPathResolver = (baseDir: string, value: string) => string;
+
+type BooleanFlagName<T> = { [K in keyof T]: T[K] extends { type: "boolean" } ? K : never }[keyof T] & string;
+
+export type NegatedFlags<T> = { [K in BooleanFlagName<T> as `no-${K}`]: { type: "boolean" } };
+
+export interface LoadedBenchConfig {
+  /** Null when no config file was given and `bench.config.json` does not exist. */
+  path: string | null;
+  profile: string | null;
+  values: FlagValues;
+}
+
+/** Flags that pick the config itself and cannot be set from it. */
+const CONFIG_FLAGS = new Set(["config", "profile"]);
+
+function toFlagName(key: string): string {
+  return key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+}
+
+function toConfigKey(flag: string): string {
+  return flag.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function isScalar(value: unknown): value is string | number {
+  return typeof value === "string" || (typeof value === "number" && Number.isFinite(value));
+}
+
+function toFlagValue(value: unknown, spec: FlagSpec, where: string): string | string[] | boolean {
+  if (spec.type === "boolean") {
+    if (typeof value !== "boolean") {
+      throw new Error(`${where} must be true or false`);
+    }
+
+    return value;
+  }
+
+  const items = Array.isArray(value) ? value : [value];
+
+  if (items.length === 0 || !items.every(isScalar)) {
+    throw new Error(`${where} must be a string, a number or a non-empty list of them`);
+  }
+
+  // Comma-separated flags such as `--sizes` take lists as one joined value.
+  return spec.multiple ? items.map(String) : items.map(String).join(",");
+}
+
+/** A `no-<flag>` switch for every boolean flag, so the command line can turn off what a config turns on. */
+export function negatedFlags<T extends Record<string, FlagSpec>>(flags: T): NegatedFlags<T> {
+  return Object.fromEntries(
+    Object.entries(flags)
+      .filter(([, spec]) => spec.type === "boolean")
+      .map(([name]) => [`no-${name}`, { type: "boolean" }]),
+  ) as NegatedFlags<T>;
+}
+
+/** Replaces each `no-<flag>` from `negatedFlags` with `<flag>: false`. */
+export function applyNegatedFlags<T extends FlagValues>(values: T): T {
+  const result: FlagValues = {};
+
+  for (const [name, value] of Object.entries(values)) {
+    if (!name.startsWith("no-")) {
+      result[name] = value;
+      continue;
+    }
+
+    const flag = name.slice("no-".length);
+
+    if (values[flag] !== undefined) {
+      throw new Error(`--${flag} and --${name} cannot be combined`);
+    }
+
+    result[flag] = false;
+  }
+
+  return result as T;
+}
+
+function parseConfigSection(
+  section: unknown,
+  flags: Record<string, FlagSpec>,
+  paths: Partial<Record<string, ConfigPathResolver>>,
+  baseDir: string,
+  where: string,
+): FlagValues {
+  if (typeof section !== "object" || section === null || Array.isArray(section)) {
+    throw new Error(`${where} must be an object`);
+  }
+
+  const values: FlagValues = {};
+
+  for (const [key, value] of Object.entries(section)) {
+    const flag = toFlagName(key);
+    const spec = flags[flag];
+
+    if (!spec || CONFIG_FLAGS.has(flag)) {
+      const known = Object.keys(flags)
+        .filter((name) => !CONFIG_FLAGS.has(name))
+        .map(toConfigKey);
+      throw new Error(`${where}: unknown option "${key}"; expected one of ${known.join(", ")}`);
+    }
+
+    const flagValue = toFlagValue(value, spec, `${where}: "${key}"`);
+    const resolvePath = paths[flag];
+
+    if (resolvePath === undefined || typeof flagValue === "boolean") {
+      values[flag] = flagValue;
+    } else {
+      values[flag] = Array.isArray(flagValue)
+        ? flagValue.map((item) => resolvePath(baseDir, item))
+        : resolvePath(baseDir, flagValue);
+    }
+  }
+
+  return values;
+}
+
+async function readConfigFile(path: string): Promise<BenchConfigFile> {
+  if (extname(path) === ".json") {
+    try {
+      return JSON.parse(await readFile(path, "utf8")) as BenchConfigFile;
+    } catch (error) {
+      throw new Error(`Could not read config ${path}: ${(error as Error).message}`);
+    }
+  }
+
+  const module = await importSourceModule(path);
+  return module.default as BenchConfigFile;
+}
+
+/**
+ * Loads `path` (or `bench.config.json` when it exists) and resolves `profile` on top of its
+ * top-level options. Every option is validated against the CLI's own flags, so a config can
+ * set exactly what the command line can. The flags in `paths` take paths, which resolve
+ * against the config file's directory rather than the working directory.
+ */
+export async function loadBenchConfig(
+  path: string | undefined,
+  profile: string | undefined,
+  flags: Record<string, FlagSpec>,
+  paths: Partial<Record<string, ConfigPathResolver>> = {},
+): Promise<LoadedBenchConfig> {
+  let configPath = path === undefined ? null : resolve(path);
+
+  if (configPath === null) {
+    const fallback = resolve(DEFAULT_CONFIG_PATH);
+    configPath = await access(fallback).then(
+      () => fallback,
+      () => null,
+    );
+  }
+
+  if (configPath === null) {
+    if (profile !== undefined) {
+      throw new Error(`--profile ${profile} needs a config file; none was given and ${DEFAULT_CONFIG_PATH} does not exist`);
+    }
+
+    return { path: null, profile: null, values: {} };
+  }
+
+  const { profiles = {}, ...options } = await readConfigFile(configPath);
+
+  if (typeof profiles !== "object" || profiles === null || Array.isArray(profiles)) {
+    throw new Error(`${configPath}: "profiles" must map profile names to options`);
+  }
+
+  // Every profile is validated, not only the selected one, so a typo fails on any run.
+  const baseDir = dirname(configPath);
+  const base = parseConfigSection(options, flags, paths, baseDir, configPath);
+  const resolvedProfiles = new Map(
+    Object.entries(profiles).map(([name, section]) => [
+      name,
+      parseConfigSection(section, flags, paths, baseDir, `${configPath} profile "${name}"`),
+    ]),
+  );
+
+  if (profile === undefined) {
+    return { path: configPath, profile: null, values: base };
+  }
+
+  const overlay = resolvedProfiles.get(profile);
+
+  if (!overlay) {
+    const names = [...resolvedProfiles.keys()];
+    throw new Error(
+      `${configPath}: unknown profile "${profile}"${names.length > 0 ? `; expected one of ${names.join(", ")}` : " (no profiles defined)"}`,
+    );
+  }
+
+  return { path: configPath, profile, values: { ...base, ...overlay } };
+}
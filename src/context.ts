@@ -1,64 +1,151 @@
 import assert from "node:assert";
-import { readFile } from "node:fs/promises";
+import { access, readFile } from "node:fs/promises";
 import { join } from "node:path";
-import type { BenchContext } from "./types.js";
-import { createInMemoryPngStream, toDataUri } from "./utils.js";
+import { readFontVerticalMetrics } from "./fontMetrics.js";
+import { toPngDataUri } from "./io.js";
+import type { BenchContext, BenchContextBase, BenchFont, OutputSize } from "./types.js";
+import { createInMemoryPngStream } from "./utils.js";
 
-const DEFAULT_WIDTH = 1_280;
-const DEFAULT_HEIGHT = 720;
+/** Output size of every case unless `--sizes` says otherwise; scenes are laid out for it. */
+export const DEFAULT_OUTPUT_SIZE: OutputSize = { width: 1_280, height: 720, dpr: 1 };
 const DEFAULT_FONT_FAMILY = "Inter";
+const DEFAULT_TEXT_SAMPLES = [
+  "benchmark: the quick brown fox jumps over the lazy dog",
+  "node image generation libraries",
+  "buffer decode + draw + encode",
+  "stream decode (disk io excluded)",
+  "kitchen sink rendering and compositing",
+  "text layout and metrics throughput",
+  "0123456789 abcdefghijklmnopqrstuvwxyz",
+  "Symbols !@#$%^&*()[]{}<>?/~",
+  "Longer sample with mixed CASE and numbers 492178",
+  "Short",
+  "Spacing    and    punctuation...",
+  "Wrapping is intentionally disabled",
+];
 
-export async function createBenchContext(): Promise<BenchContext> {
-  const backgroundPath = join(process.cwd(), "fixtures", "background.png");
-  const avatarPath = join(process.cwd(), "fixtures", "avatar.png");
-  const badgePath = join(process.cwd(), "fixtures", "guild.png");
+/** Where a context's fixtures, fonts and text samples come from; unset fields use the bundled ones. */
+export interface BenchAssetOptions {
+  /** Directory holding `background.png`, `avatar.png` and `guild.png`. */
+  fixturesDir?: string;
+  fonts?: BenchFont[];
+  /** Family the built-in scenes draw with; defaults to the first font's. */
+  fontFamily?: string;
+  /** UTF-8 file with one text sample per line; blank lines are ignored. */
+  textSamplesPath?: string;
+  scenePaths?: string[];
+}
+
+/** Encoder settings shared by every renderer. */
+export interface BenchEncodeOptions {
+  webpQuality?: number;
+}
+
+export function defaultFonts(): BenchFont[] {
+  const fontsDir = join(process.cwd(), "assets", "fonts");
+
+  return [
+    { family: DEFAULT_FONT_FAMILY, path: join(fontsDir, "Inter-Regular.ttf"), weight: 400, style: "normal" },
+    { family: DEFAULT_FONT_FAMILY, path: join(fontsDir, "Inter-SemiBold.ttf"), weight: 600, style: "normal" },
+  ];
+}
+
+async function readTextSamples(path: string): Promise<string[]> {
+  const samples = (await readFile(path, "utf8"))
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0);
+
+  assert(samples.length > 0, `${path} has no text samples`);
+  return samples;
+}
+
+export async function createBenchContext(
+  size: OutputSize = DEFAULT_OUTPUT_SIZE,
+  assets: BenchAssetOptions = {},
+  encode: BenchEncodeOptions = {},
+): Promise<BenchContext> {
+  const fixturesDir = assets.fixturesDir ?? join(process.cwd(), "fixtures");
+  const fixturePaths = {
+    background: join(fixturesDir, "background.png"),
+    avatar: join(fixturesDir, "avatar.png"),
+    badge: join(fixturesDir, "guild.png"),
+  };
 
   const [background, avatar, badge] = await Promise.all([
-    readFile(backgroundPath),
-    readFile(avatarPath),
-    readFile(badgePath),
+    readFile(fixturePaths.background),
+    readFile(fixturePaths.avatar),
+    readFile(fixturePaths.badge),
   ]);
 
-  assert(background.length > 0, "fixtures/background.png is empty");
-  assert(avatar.length > 0, "fixtures/avatar.png is empty");
-  assert(badge.length > 0, "fixtures/guild.png is empty");
+  assert(background.length > 0, `${fixturePaths.background} is empty`);
+  assert(avatar.length > 0, `${fixturePaths.avatar} is empty`);
+  assert(badge.length > 0, `${fixturePaths.badge} is empty`);
 
-  const regularFont = join(process.cwd(), "assets", "fonts", "Inter-Regular.ttf");
-  const semiboldFont = join(process.cwd(), "assets", "fonts", "Inter-SemiBold.ttf");
+  const fonts = assets.fonts ?? defaultFonts();
+  const fontFamily = assets.fontFamily ?? fonts[0]?.family;
+  assert(fontFamily !== undefined, "at least one font is required");
+  assert(
+    fonts.some((font) => font.family === fontFamily),
+    `no font file is registered for the "${fontFamily}" font family`,
+  );
 
-  return {
-    width: DEFAULT_WIDTH,
-    height: DEFAULT_HEIGHT,
-    fontFamily: DEFAULT_FONT_FAMILY,
-    fontPaths: {
-      regular: regularFont,
-      semibold: semiboldFont,
-    },
-    buffers: {
-      background,
-      avatar,
-      badge,
+  // Renderers read font files lazily; fail here rather than inside the first render.
+  const fontMetrics = await Promise.all(
+    fonts.map(async (font) => {
+      await access(font.path).catch(() => {
+        throw new Error(`Font file not found: ${font.path}`);
+      });
+
+      return [font.path, await readFontVerticalMetrics(font.path)] as const;
+    }),
+  );
+
+  return buildBenchContext(
+    {
+      width: size.width,
+      height: size.height,
+      dpr: size.dpr,
+      fontFamily,
+      fonts,
+      fontMetrics: Object.fromEntries(fontMetrics),
+      textSamples: assets.textSamplesPath ? await readTextSamples(assets.textSamplesPath) : DEFAULT_TEXT_SAMPLES,
+      scenePaths: assets.scenePaths ?? [],
+      webpQuality: encode.webpQuality ?? null,
     },
+    { background, avatar, badge },
+  );
+}
+
+/**
+ * Assembles a context from already-loaded fixture buffers. Worker threads use this to
+ * rebuild the context around buffers that live in shared memory.
+ */
+export function buildBenchContext(base: BenchContextBase, buffers: BenchContext["buffers"]): BenchContext {
+  return {
+    ...base,
+    scale: layoutScale(base),
+    buffers,
     dataUris: {
-      background: toDataUri(background),
-      avatar: toDataUri(avatar),
-      badge: toDataUri(badge),
+      background: toPngDataUri(buffers.background),
+      avatar: toPngDataUri(buffers.avatar),
+      badge: toPngDataUri(buffers.badge),
     },
-    textSamples: [
-      "benchmark: the quick brown fox jumps over the lazy dog",
-      "node image generation libraries",
-      "buffer decode + draw + encode",
-      "stream decode (disk io excluded)",
-      "kitchen sink rendering and compositing",
-      "text layout and metrics throughput",
-      "0123456789 abcdefghijklmnopqrstuvwxyz",
-      "Symbols !@#$%^&*()[]{}<>?/~",
-      "Longer sample with mixed CASE and numbers 492178",
-      "Short",
-      "Spacing    and    punctuation...",
-      "Wrapping is intentionally disabled",
-    ],
-    createBackgroundStream: () => createInMemoryPngStream(background),
-    createAvatarStream: () => createInMemoryPngStream(avatar),
+    createBackgroundStream: () => createInMemoryPngStream(buffers.background),
+    createAvatarStream: () => createInMemoryPngStream(buffers.avatar),
   };
 }
+
+function layoutScale(size: Pick<OutputSize, "width" | "height">): number {
+  return Math.min(size.width / DEFAULT_OUTPUT_SIZE.width, size.height / DEFAULT_OUTPUT_SIZE.height);
+}
+
+/**
+ * Returns the same context (fixtures, fonts, data URIs) rendering at another output size.
+ */
+export function withOutputSize(context: BenchContext, size: OutputSize): BenchContext {
+  if (context.width === size.width && context.height === size.height && context.dpr === size.dpr) {
+    return context;
+  }
+
+  return { ...context, width: size.width, height: size.height, dpr: size.dpr, scale: layoutScale(size) };
+}
@@ -0,0 +1,73 @@
+import { readFile } from "node:fs/promises";
+import type { BenchFont } from "./types.js";
+
+export interface FontVerticalMetrics {
+  /** Above the baseline, in font units. */
+  ascender: number;
+  /** Below the baseline, in font units (positive). */
+  descender: number;
+  /** Height of flat capitals (OS/2 `sCapHeight`), or the ascender when the font does not say. */
+  capHeight: number;
+  unitsPerEm: number;
+}
+
+const fontMetricsCache = new Map<string, Promise<FontVerticalMetrics>>();
+
+/** The registered font of `family` closest to `weight`, as a CSS engine would pick it. */
+export function findFont(fonts: BenchFont[], family: string, weight: number): BenchFont {
+  const candidates = fonts.filter((font) => font.family === family);
+
+  if (candidates.length === 0) {
+    throw new Error(`No font is registered for the "${family}" font family`);
+  }
+
+  return candidates.reduce((best, font) =>
+    Math.abs(font.weight - weight) < Math.abs(best.weight - weight) ? font : best,
+  );
+}
+
+function parseFontVerticalMetrics(buffer: Buffer, path: string): FontVerticalMetrics {
+  const version = buffer.readUInt32BE(0);
+
+  // TrueType (0x00010000 or `true`) or CFF (`OTTO`) outlines; collections and WOFF are not read.
+  if (version !== 0x00010000 && version !== 0x74727565 && version !== 0x4f54544f) {
+    throw new Error(`${path} is not a TrueType or OpenType font`);
+  }
+
+  const tables = new Map<string, number>();
+
+  for (let index = 0; index < buffer.readUInt16BE(4); index += 1) {
+    const record = 12 + index * 16;
+    tables.set(buffer.toString("latin1", record, record + 4), buffer.readUInt32BE(record + 8));
+  }
+
+  const head = tables.get("head");
+  const hhea = tables.get("hhea");
+  const os2 = tables.get("OS/2");
+
+  if (head === undefined || hhea === undefined) {
+    throw new Error(`${path} has no head/hhea table`);
+  }
+
+  const ascender = buffer.readInt16BE(hhea + 4);
+
+  return {
+    ascender,
+    descender: -buffer.readInt16BE(hhea + 6),
+    // `sCapHeight` arrived with OS/2 version 2.
+    capHeight: os2 !== undefined && buffer.readUInt16BE(os2) >= 2 ? buffer.readInt16BE(os2 + 88) : ascender,
+    unitsPerEm: buffer.readUInt16BE(head + 18),
+  };
+}
+
+/** Ascender and descender from the font's `hhea` table, which line boxes are built from, and its cap height. */
+export function readFontVerticalMetrics(path: string): Promise<FontVerticalMetrics> {
+  let metrics = fontMetricsCache.get(path);
+
+  if (!metrics) {
+    metrics = readFile(path).then((buffer) => parseFontVerticalMetrics(buffer, path));
+    fontMetricsCache.set(path, metrics);
+  }
+
+  return metrics;
+}
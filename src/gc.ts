@@ -0,0 +1,65 @@
+import { PerformanceObserver, constants, type PerformanceEntry } from "node:perf_hooks";
+import { setImmediate } from "node:timers/promises";
+import v8 from "node:v8";
+
+export interface GcSummary {
+  minorCount: number;
+  majorCount: number;
+  pauseMs: number;
+  /** JS heap bytes allocated while tracking: heap growth plus everything the collections reclaimed. */
+  allocatedBytes: number;
+}
+
+export interface GcTracker {
+  stop: () => Promise<GcSummary>;
+}
+
+interface GcEntryDetail {
+  kind: number;
+}
+
+/**
+ * Counts and times collections through `gc` performance entries. Allocation volume cannot
+ * be read from V8 directly, so it is reconstructed from `v8.getHeapStatistics()` at both
+ * ends plus the bytes each collection freed, which `v8.GCProfiler` reports as used heap
+ * before and after every GC. Forced collections (`globalThis.gc()`) inside the tracked
+ * window, e.g. soak memory samples, are counted like any other.
+ */
+export function startGcTracker(): GcTracker {
+  const startedAt = performance.now();
+  const entries: PerformanceEntry[] = [];
+  const observer = new PerformanceObserver((list) => {
+    entries.push(...list.getEntries());
+  });
+  observer.observe({ entryTypes: ["gc"] });
+
+  const profiler = new v8.GCProfiler();
+  profiler.start();
+  const usedBefore = v8.getHeapStatistics().used_heap_size;
+
+  return {
+    stop: async () => {
+      const usedAfter = v8.getHeapStatistics().used_heap_size;
+      const profile = profiler.stop();
+
+      // GC entries are delivered asynchronously; give pending ones a turn to arrive.
+      await setImmediate();
+      entries.push(...observer.takeRecords());
+      observer.disconnect();
+
+      const collections = entries.filter((entry) => entry.startTime >= startedAt);
+      const kindOf = (entry: PerformanceEntry) => (entry as PerformanceEntry & { detail?: GcEntryDetail }).detail?.kind;
+      const reclaimed = profile.statistics.reduce(
+        (total, gc) => total + Math.max(0, gc.beforeGC.heapStatistics.usedHeapSize - gc.afterGC.heapStatistics.usedHeapSize),
+        0,
+      );
+
+      return {
+        minorCount: collections.filter((entry) => kindOf(entry) === constants.NODE_PERFORMANCE_GC_MINOR).length,
+        majorCount: collections.filter((entry) => kindOf(entry) === constants.NODE_PERFORMANCE_GC_MAJOR).length,
+        pauseMs: collections.reduce((total, entry) => total + entry.duration, 0),
+        allocatedBytes: Math.max(0, usedAfter - usedBefore + reclaimed),
+      };
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { type HistoryEntry, type HistoryRun, buildHistoryMarkdown, describeHistoryRun } from "./history.js";
+import type { BenchCaseStats } from "./types.js";
+
+function entry(run: HistoryRun | undefined, avgMs: number): HistoryEntry {
+  return {
+    timestamp: "2026-01-01T00:00:00.000Z",
+    ...(run ? { run } : {}),
+    gitCommit: null,
+    node: "v20.0.0",
+    platform: "linux-x64",
+    cpu: "test",
+    dependencies: {},
+    tasks: ["kitchen-sink"],
+    stats: [{ renderer: "takumi (jsx+style)", task: "kitchen-sink", avgMs, rssPeakDeltaMb: 10 } as BenchCaseStats],
+  };
+}
+
+describe("buildHistoryMarkdown", () => {
+  it("trends each mode and profile on its own", () => {
+    const markdown = buildHistoryMarkdown([
+      entry({ mode: "fixed", profile: null }, 10),
+      entry({ mode: "adaptive", profile: "ci" }, 40),
+      entry({ mode: "fixed", profile: null }, 12),
+      entry(undefined, 99),
+    ]);
+    const sections = markdown.split(/^## /m).slice(2);
+
+    assert.deepEqual(
+      sections.map((section) => section.split("\n")[0]),
+      ["Fixed iterations", "Adaptive sampling, profile `ci`", "Mode not recorded"],
+    );
+    // The fixed series runs 10 -> 12 and never sees the adaptive run's 40 ms.
+    assert.match(sections[0]!, /\| takumi \(jsx\+style\) \| 2 \| 10\.000 \| 12\.000 \| \+20% \|/);
+    assert.match(sections[1]!, /\| takumi \(jsx\+style\) \| 1 \| 40\.000 \| 40\.000 \|/);
+  });
+
+  it("labels soak runs without a profile", () => {
+    assert.equal(describeHistoryRun({ mode: "soak", profile: null }), "Soak");
+  });
+});
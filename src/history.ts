@@ -0,0 +1,262 @@
+import { execFile } from "node:child_process";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import os from "node:os";
+import { dirname, join } from "node:path";
+import process from "node:process";
+import { promisify } from "node:util";
+import { isSameCase } from "./compare.js";
+import { DEFAULT_OUTPUT_SIZE } from "./context.js";
+import type { BenchCaseStats, BenchTaskName } from "./types.js";
+import { formatSize, round } from "./utils.js";
+
+const execFileAsync = promisify(execFile);
+
+const SPARK_BLOCKS = ["▁", "▂", "▃", "▄", "▅", "▆", "▇", "█"];
+const RUN_MODE_LABELS: Record<HistoryRunMode, string> = {
+  fixed: "Fixed iterations",
+  adaptive: "Adaptive sampling",
+  soak: "Soak",
+};
+
+export const DEFAULT_HISTORY_PATH = join(process.cwd(), "outputs", "history", "benchmark-history.jsonl");
+
+/** How a run sampled: a fixed iteration count, until a CI target or time budget, or a soak. */
+export type HistoryRunMode = "fixed" | "adaptive" | "soak";
+
+export const HISTORY_RUN_MODES: HistoryRunMode[] = ["fixed", "adaptive", "soak"];
+
+/** What a run's timings are comparable with; only runs of the same mode and profile form a trend. */
+export interface HistoryRun {
+  mode: HistoryRunMode;
+  /** Config profile (`--profile`), or null for a run without one. */
+  profile: string | null;
+}
+
+export interface HistoryEntry {
+  timestamp: string;
+  /** Missing in entries written before runs were recorded; those form a series of their own. */
+  run?: HistoryRun;
+  gitCommit: string | null;
+  node: string;
+  platform: string;
+  cpu: string;
+  dependencies: Record<string, string>;
+  tasks: BenchTaskName[];
+  stats: BenchCaseStats[];
+}
+
+async function resolveGitCommit(): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync("git", ["rev-parse", "HEAD"], { cwd: process.cwd() });
+    return stdout.trim() || null;
+  } catch {
+    return process.env.GITHUB_SHA ?? null;
+  }
+}
+
+/**
+ * Installed versions of the packages listed in the project's `dependencies`, so trend
+ * lines can be lined up against library upgrades rather than the semver ranges.
+ */
+async function resolveDependencyVersions(): Promise<Record<string, string>> {
+  const manifest = JSON.parse(await readFile(join(process.cwd(), "package.json"), "utf8")) as {
+    dependencies?: Record<string, string>;
+  };
+  const versions: Record<string, string> = {};
+
+  for (const [name, range] of Object.entries(manifest.dependencies ?? {})) {
+    try {
+      const installed = JSON.parse(
+        await readFile(join(process.cwd(), "node_modules", name, "package.json"), "utf8"),
+      ) as { version?: string };
+      versions[name] = installed.version ?? range;
+    } catch {
+      versions[name] = range;
+    }
+  }
+
+  return versions;
+}
+
+export async function createHistoryEntry(
+  run: HistoryRun,
+  tasks: BenchTaskName[],
+  stats: BenchCaseStats[],
+): Promise<HistoryEntry> {
+  const [gitCommit, dependencies] = await Promise.all([resolveGitCommit(), resolveDependencyVersions()]);
+
+  return {
+    timestamp: new Date().toISOString(),
+    run,
+    gitCommit,
+    node: process.version,
+    platform: `${process.platform}-${process.arch}`,
+    cpu: os.cpus()[0]?.model ?? "unknown",
+    dependencies,
+    tasks,
+    stats,
+  };
+}
+
+export async function appendHistoryEntry(path: string, entry: HistoryEntry): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await appendFile(path, `${JSON.stringify(entry)}\n`);
+}
+
+export async function readHistory(path: string): Promise<HistoryEntry[]> {
+  let raw: string;
+
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+
+    throw error;
+  }
+
+  return raw
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as HistoryEntry;
+      } catch (error) {
+        throw new Error(`${path}:${index + 1}: invalid history entry: ${(error as Error).message}`);
+      }
+    });
+}
+
+export function sparkline(values: Array<number | null>): string {
+  const present = values.filter((value): value is number => value !== null);
+
+  if (present.length === 0) {
+    return "";
+  }
+
+  const min = Math.min(...present);
+  const max = Math.max(...present);
+  const span = max - min;
+
+  return values
+    .map((value) => {
+      if (value === null) {
+        return " ";
+      }
+
+      const level = span === 0 ? 0 : Math.round(((value - min) / span) * (SPARK_BLOCKS.length - 1));
+      return SPARK_BLOCKS[level];
+    })
+    .join("");
+}
+
+function shortCommit(commit: string | null): string {
+  return commit ? commit.slice(0, 7) : "unknown";
+}
+
+/** Label of a run's series, e.g. "Adaptive sampling, profile `ci`". */
+export function describeHistoryRun(run: HistoryRun | undefined): string {
+  if (!run) {
+    return "Mode not recorded";
+  }
+
+  return `${RUN_MODE_LABELS[run.mode]}${run.profile === null ? "" : `, profile \`${run.profile}\``}`;
+}
+
+function formatChange(first: number, last: number): string {
+  if (first === 0) {
+    return "n/a";
+  }
+
+  const change = round(((last - first) / first) * 100, 1);
+  return `${change > 0 ? "+" : ""}${change}%`;
+}
+
+export function buildHistoryMarkdown(entries: HistoryEntry[]): string {
+  const lines: string[] = [];
+
+  lines.push("# Node Image Library Benchmark History");
+  lines.push("");
+  lines.push(`Runs: ${entries.length}`);
+  lines.push("");
+
+  if (entries.length === 0) {
+    lines.push("No history recorded yet. Run `pnpm bench` to append an entry.");
+    lines.push("");
+    return lines.join("\n");
+  }
+
+  const dependencyNames = [...new Set(entries.flatMap((entry) => Object.keys(entry.dependencies)))].sort();
+
+  lines.push("## Runs");
+  lines.push("");
+  lines.push(`| # | Timestamp | Commit | Run | Node | ${dependencyNames.join(" | ")} |`);
+  lines.push(`|---:|---|---|---|---|${dependencyNames.map(() => "---").join("|")}|`);
+
+  entries.forEach((entry, index) => {
+    const versions = dependencyNames.map((name) => entry.dependencies[name] ?? "-");
+    lines.push(
+      `| ${index + 1} | ${entry.timestamp} | ${shortCommit(entry.gitCommit)} | ${describeHistoryRun(entry.run)} | ${entry.node} | ${versions.join(" | ")} |`,
+    );
+  });
+
+  lines.push("");
+
+  // Fixed, adaptive and soak runs (and different profiles) sample differently, so each trends on its own.
+  const series = new Map<string, HistoryEntry[]>();
+
+  for (const entry of entries) {
+    const label = describeHistoryRun(entry.run);
+    series.set(label, [...(series.get(label) ?? []), entry]);
+  }
+
+  for (const [label, seriesEntries] of series) {
+    lines.push(`## ${label}`);
+    lines.push("");
+    lines.push(...buildSeriesMarkdown(seriesEntries));
+  }
+
+  return lines.join("\n");
+}
+
+/** Trend tables per workload over the entries of one series. */
+function buildSeriesMarkdown(entries: HistoryEntry[]): string[] {
+  const lines: string[] = [];
+  const tasks = [...new Set(entries.flatMap((entry) => entry.stats.map((stat) => stat.task)))];
+
+  for (const task of tasks) {
+    // One row per renderer and output size; entries from before sizes were recorded ran at the default.
+    const cases = entries
+      .flatMap((entry) => entry.stats.filter((stat) => stat.task === task))
+      .filter((stat, index, all) => all.findIndex((other) => isSameCase(other, stat)) === index);
+
+    lines.push(`### ${task}`);
+    lines.push("");
+    lines.push("| Renderer | Runs | First avg (ms) | Last avg (ms) | Change | Min avg (ms) | Max avg (ms) | Avg trend | RSS peak Δ trend |");
+    lines.push("|---|---:|---:|---:|---:|---:|---:|---|---|");
+
+    for (const current of cases) {
+      const series = entries.map((entry) => entry.stats.find((stat) => isSameCase(stat, current)) ?? null);
+      const size = {
+        width: current.width ?? DEFAULT_OUTPUT_SIZE.width,
+        height: current.height ?? DEFAULT_OUTPUT_SIZE.height,
+        dpr: current.dpr ?? DEFAULT_OUTPUT_SIZE.dpr,
+      };
+      const version = (current.workloadVersion ?? 1) === 1 ? "" : ` (v${current.workloadVersion})`;
+      const renderer = `${formatSize(size) === formatSize(DEFAULT_OUTPUT_SIZE) ? current.renderer : `${current.renderer} @ ${formatSize(size)}`}${version}`;
+      const present = series.filter((stat): stat is BenchCaseStats => stat !== null);
+      const first = present[0]!;
+      const last = present[present.length - 1]!;
+      const averages = present.map((stat) => stat.avgMs);
+
+      lines.push(
+        `| ${renderer} | ${present.length} | ${first.avgMs.toFixed(3)} | ${last.avgMs.toFixed(3)} | ${formatChange(first.avgMs, last.avgMs)} | ${Math.min(...averages).toFixed(3)} | ${Math.max(...averages).toFixed(3)} | \`${sparkline(series.map((stat) => stat?.avgMs ?? null))}\` | \`${sparkline(series.map((stat) => stat?.rssPeakDeltaMb ?? null))}\` |`,
+      );
+    }
+
+    lines.push("");
+  }
+
+  return lines;
+}
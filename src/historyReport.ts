@@ -0,0 +1,51 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import process from "node:process";
+import { parseArgs } from "node:util";
+import { cliArgs, parseInteger, parseTasks } from "./cli.js";
+import {
+  DEFAULT_HISTORY_PATH,
+  HISTORY_RUN_MODES,
+  type HistoryRunMode,
+  buildHistoryMarkdown,
+  readHistory,
+} from "./history.js";
+
+const { values } = parseArgs({
+  args: cliArgs(),
+  options: {
+    last: { type: "string" },
+    file: { type: "string" },
+    workload: { type: "string", multiple: true },
+    mode: { type: "string" },
+    profile: { type: "string" },
+    out: { type: "string" },
+  },
+  strict: true,
+  allowPositionals: false,
+});
+
+const last = parseInteger(values.last, 20, "last");
+const historyPath = values.file === undefined ? DEFAULT_HISTORY_PATH : resolve(values.file);
+const outputPath = values.out === undefined ? join(process.cwd(), "outputs", "benchmark-history.md") : resolve(values.out);
+const workloads = values.workload === undefined ? null : parseTasks(values.workload);
+const mode = values.mode as HistoryRunMode | undefined;
+
+if (mode !== undefined && !HISTORY_RUN_MODES.includes(mode)) {
+  throw new Error(`--mode must be one of ${HISTORY_RUN_MODES.join(", ")}`);
+}
+
+// Runs are filtered before `--last`, so it counts runs of the selected mode and profile.
+const entries = (await readHistory(historyPath))
+  .filter((entry) => mode === undefined || entry.run?.mode === mode)
+  .filter((entry) => values.profile === undefined || entry.run?.profile === values.profile)
+  .slice(-last)
+  .map((entry) => (workloads ? { ...entry, stats: entry.stats.filter((stat) => workloads.includes(stat.task)) } : entry));
+
+const markdown = buildHistoryMarkdown(entries);
+
+await mkdir(dirname(outputPath), { recursive: true });
+await writeFile(outputPath, markdown);
+
+console.log(markdown);
+console.log(`\nWrote history report: ${outputPath}`);
@@ -1,3 +1,50 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import process from "node:process";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { threadId } from "node:worker_threads";
+
+const TRANSPILED_EXTENSIONS = new Set([".jsx", ".ts", ".tsx"]);
+
+/**
+ * Transpiled modules go to this project's `node_modules/.cache`: inside the project, so bare
+ * imports resolve, and outside the benchmark outputs, which every run may move elsewhere.
+ */
+const TRANSPILE_CACHE_DIR = fileURLToPath(
+  new URL("../node_modules/.cache/node-image-benchmarks/", import.meta.url),
+);
+
 export function toPngDataUri(buffer: Buffer): string {
   return `data:image/png;base64,${buffer.toString("base64")}`;
 }
+
+/**
+ * Imports a JS module, transpiling JSX/TypeScript on its own into `TRANSPILE_CACHE_DIR` first so
+ * bare imports resolve against this project. Relative imports are not rewritten. The output is named
+ * after a hash of the full path, so files that share a basename do not overwrite each other.
+ */
+export async function importSourceModule(path: string): Promise<Record<string, unknown>> {
+  if (!TRANSPILED_EXTENSIONS.has(extname(path))) {
+    return import(pathToFileURL(path).href) as Promise<Record<string, unknown>>;
+  }
+
+  const { default: ts } = await import("typescript");
+  const output = ts.transpileModule(await readFile(path, "utf8"), {
+    fileName: path,
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+      jsx: ts.JsxEmit.ReactJSX,
+    },
+  });
+
+  const hash = createHash("sha256").update(path).digest("hex").slice(0, 16);
+  const outputPath = join(TRANSPILE_CACHE_DIR, `${basename(path, extname(path))}-${hash}.mjs`);
+  const partialPath = `${outputPath}.${process.pid}-${threadId}.tmp`;
+  await mkdir(TRANSPILE_CACHE_DIR, { recursive: true });
+  // Workers and isolated children transpile the same file; the rename keeps each import whole.
+  await writeFile(partialPath, output.outputText);
+  await rename(partialPath, outputPath);
+  return import(pathToFileURL(outputPath).href) as Promise<Record<string, unknown>>;
+}
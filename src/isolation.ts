@@ -0,0 +1,101 @@
+import { fork } from "node:child_process";
+import { fileURLToPath } from "node:url";
+import type { BenchAssetOptions, BenchEncodeOptions } from "./context.js";
+import type { BenchCaseOutcome, BenchTaskName, OutputSize, RendererPrepareStats, SamplingOptions } from "./types.js";
+
+export type IsolationMode = "none" | "renderer" | "case";
+
+export const ISOLATION_MODES: IsolationMode[] = ["none", "renderer", "case"];
+
+export interface IsolatedJob {
+  renderer: string;
+  tasks: BenchTaskName[];
+  /** Output sizes; every task runs at each of them. */
+  sizes: OutputSize[];
+  options: SamplingOptions;
+  /** Worker-pool sizes, so pool renderer names resolve in the child too. */
+  workerPools: number[];
+  /** Fixtures, fonts, text samples and `--scene` files, so the child builds the same context. */
+  assets: BenchAssetOptions;
+  encode: BenchEncodeOptions;
+}
+
+export type IsolatedMessage =
+  | {
+      type: "prepared";
+      stats: RendererPrepareStats;
+    }
+  | {
+      type: "start";
+      renderer: string;
+      task: BenchTaskName;
+      size: OutputSize;
+    }
+  | {
+      type: "outcome";
+      outcome: BenchCaseOutcome;
+    }
+  | {
+      type: "error";
+      message: string;
+    };
+
+export interface IsolatedHandlers {
+  onPrepared: (stats: RendererPrepareStats) => void;
+  onStart: (renderer: string, task: BenchTaskName, size: OutputSize) => void;
+  onOutcome: (outcome: BenchCaseOutcome) => Promise<void>;
+}
+
+const childEntryPath = fileURLToPath(new URL("./caseChild.js", import.meta.url));
+
+export class IsolatedCaseError extends Error {
+  constructor(renderer: string, detail: string) {
+    super(`${renderer} (isolated): ${detail}`);
+    this.name = "IsolatedCaseError";
+  }
+}
+
+/**
+ * Forks a fresh Node process that prepares only `job.renderer` and runs `job.tasks` in it,
+ * forwarding each case outcome back to the parent over IPC.
+ */
+export function runIsolated(job: IsolatedJob, handlers: IsolatedHandlers): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = fork(childEntryPath, [], {
+      serialization: "advanced",
+      stdio: ["ignore", "inherit", "inherit", "ipc"],
+    });
+
+    let pending = Promise.resolve();
+    let failure: Error | null = null;
+
+    child.on("message", (message: IsolatedMessage) => {
+      pending = pending.then(async () => {
+        if (message.type === "prepared") {
+          handlers.onPrepared(message.stats);
+        } else if (message.type === "start") {
+          handlers.onStart(message.renderer, message.task, message.size);
+        } else if (message.type === "outcome") {
+          await handlers.onOutcome(message.outcome);
+        } else {
+          failure = new IsolatedCaseError(job.renderer, message.message);
+        }
+      });
+    });
+
+    child.once("error", reject);
+    child.once("exit", (code, signal) => {
+      pending.then(() => {
+        if (failure) {
+          reject(failure);
+        } else if (code !== 0) {
+          reject(new IsolatedCaseError(job.renderer, `child process exited with ${signal ?? `code ${code}`}`));
+        } else {
+          resolve();
+        }
+      }, reject);
+    });
+
+    child.send(job);
+  });
+}
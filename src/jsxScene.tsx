@@ -0,0 +1,199 @@
+import type { CSSProperties, ReactElement } from "react";
+import { toPngDataUri } from "./io.js";
+import {
+  type Scene,
+  type SceneImages,
+  type SceneNode,
+  loadTaskScene,
+  resolveSceneImages,
+  sceneImage,
+  sceneTextBaseline,
+  sceneTextMetrics,
+} from "./scene.js";
+import { lineBoxBaseline } from "./textLayout.js";
+import type { BenchContext, BenchTaskName } from "./types.js";
+import { findUserScene, sceneComponentProps } from "./userScene.js";
+
+/** `style` sets everything inline; `tailwind` moves the static parts to `tw` classes. */
+export type JsxSceneVariant = "style" | "tailwind";
+
+const FONT_WEIGHT_CLASSES: Partial<Record<number, string>> = {
+  100: "font-thin",
+  200: "font-extralight",
+  300: "font-light",
+  400: "font-normal",
+  500: "font-medium",
+  600: "font-semibold",
+  700: "font-bold",
+  800: "font-extrabold",
+  900: "font-black",
+};
+
+/**
+ * The canvas compiler's gradient runs from the top-left to the bottom-right corner. A CSS
+ * gradient at `90deg + atan(height / width)` points the same way and, since CSS sizes the
+ * gradient line so the corners sit on its ends, spans the same length.
+ */
+function gradientCss(box: { width: number; height: number }, stops: Array<{ offset: number; color: string }>): string {
+  const angle = 90 + (Math.atan2(box.height, box.width) * 180) / Math.PI;
+  return `linear-gradient(${angle}deg, ${stops.map((stop) => `${stop.color} ${stop.offset * 100}%`).join(", ")})`;
+}
+
+/**
+ * Absolutely positioned box. Clip children keep scene coordinates, so `origin` is the
+ * top-left of the enclosing clip they are positioned against.
+ */
+function boxProps(
+  variant: JsxSceneVariant,
+  origin: { x: number; y: number },
+  box: { x: number; y: number; width: number; height: number },
+  classes: string,
+  style: CSSProperties,
+): { tw?: string; style: CSSProperties } {
+  const geometry = { left: box.x - origin.x, top: box.y - origin.y, width: box.width, height: box.height };
+
+  if (variant === "tailwind") {
+    return { tw: ["absolute", classes].filter(Boolean).join(" "), style: { ...geometry, ...style } };
+  }
+
+  return { style: { position: "absolute", ...geometry, ...style } };
+}
+
+function buildNodeElement(
+  node: SceneNode,
+  key: number,
+  images: SceneImages<string>,
+  variant: JsxSceneVariant,
+  origin: { x: number; y: number },
+  context: BenchContext,
+): ReactElement {
+  switch (node.type) {
+    case "image":
+      return (
+        <img
+          key={key}
+          src={sceneImage(images, node.image)}
+          width={node.width}
+          height={node.height}
+          {...boxProps(variant, origin, node, "", { objectFit: "cover" })}
+        />
+      );
+    case "rect":
+      return <div key={key} {...boxProps(variant, origin, node, "", { backgroundColor: node.fill })} />;
+    case "roundedRect":
+      return (
+        <div key={key} {...boxProps(variant, origin, node, "", { borderRadius: node.radius, backgroundColor: node.fill })} />
+      );
+    case "circle": {
+      const box = { x: node.cx - node.radius, y: node.cy - node.radius, width: node.radius * 2, height: node.radius * 2 };
+      return variant === "tailwind" ? (
+        <div key={key} {...boxProps(variant, origin, box, "rounded-full", { backgroundColor: node.fill })} />
+      ) : (
+        <div key={key} {...boxProps(variant, origin, box, "", { borderRadius: node.radius, backgroundColor: node.fill })} />
+      );
+    }
+    case "gradient":
+      return <div key={key} {...boxProps(variant, origin, node, "", { backgroundImage: gradientCss(node, node.stops) })} />;
+    case "text": {
+      // The line box is one font size tall, so its baseline sits half the leading plus the
+      // ascent down; the box goes where that lands on the node's baseline, as canvas draws it.
+      // Canvas draws text as one unwrapped line with every space kept; satori's tailwind has no
+      // `whitespace-pre`, so both variants set it inline.
+      const { ascent, descent } = sceneTextMetrics(node, context);
+      const top = sceneTextBaseline(node, context) - lineBoxBaseline(node.fontSize, ascent, descent);
+      const text: CSSProperties = {
+        color: node.color,
+        fontSize: node.fontSize,
+        lineHeight: `${node.fontSize}px`,
+        whiteSpace: "pre",
+        ...(node.fontStyle ? { fontStyle: node.fontStyle } : {}),
+        ...(node.fontFamily ? { fontFamily: node.fontFamily } : {}),
+      };
+      const position = { left: node.x - origin.x, top: top - origin.y };
+      const weightClass = FONT_WEIGHT_CLASSES[node.fontWeight];
+
+      // Weights without a tailwind class (e.g. 450) fall back to an inline `fontWeight`.
+      return variant === "tailwind" ? (
+        <div
+          key={key}
+          tw={`absolute flex${weightClass ? ` ${weightClass}` : ""}`}
+          style={{ ...position, ...text, ...(weightClass ? {} : { fontWeight: node.fontWeight }) }}
+        >
+          {node.text}
+        </div>
+      ) : (
+        <div key={key} style={{ position: "absolute", display: "flex", ...position, ...text, fontWeight: node.fontWeight }}>
+          {node.text}
+        </div>
+      );
+    }
+    case "clip":
+      return (
+        <div
+          key={key}
+          {...boxProps(variant, origin, node, "flex overflow-hidden", {
+            borderRadius: node.radius,
+            ...(variant === "style" ? { display: "flex", overflow: "hidden" } : {}),
+          })}
+        >
+          {node.children.map((child, index) => buildNodeElement(child, index, images, variant, node, context))}
+        </div>
+      );
+  }
+}
+
+/** Images as data URIs: cached per fixture, encoded per render only for streamed sources. */
+export function resolveSceneDataUris(
+  scene: Scene,
+  context: BenchContext,
+  task: BenchTaskName,
+): Promise<SceneImages<string>> {
+  return resolveSceneImages(scene, context, task, (source) => source.dataUri ?? toPngDataUri(source.buffer));
+}
+
+/**
+ * Compiles a scene to JSX for satori and takumi: every node becomes an absolutely
+ * positioned element inside a root of the scene's size, in node order.
+ */
+export function buildSceneElement(
+  scene: Scene,
+  images: SceneImages<string>,
+  context: BenchContext,
+  variant: JsxSceneVariant,
+): ReactElement {
+  const root = { x: 0, y: 0 };
+  const children = scene.nodes.map((node, index) => buildNodeElement(node, index, images, variant, root, context));
+  const frame = {
+    width: scene.width,
+    height: scene.height,
+    backgroundColor: scene.background,
+    fontFamily: context.fontFamily,
+  };
+
+  if (variant === "tailwind") {
+    return (
+      <div tw="relative flex overflow-hidden" style={frame}>
+        {children}
+      </div>
+    );
+  }
+
+  return <div style={{ ...frame, position: "relative", display: "flex", overflow: "hidden" }}>{children}</div>;
+}
+
+/** The element a drawing task renders: a compiled scene, or a `--scene` component's output. */
+export async function buildTaskElement(
+  context: BenchContext,
+  task: BenchTaskName,
+  variant: JsxSceneVariant,
+): Promise<ReactElement> {
+  const userScene = await findUserScene(context, task);
+
+  if (userScene?.kind === "component") {
+    return userScene.component(sceneComponentProps(context));
+  }
+
+  const scene = await loadTaskScene(context, task);
+  const images = await resolveSceneDataUris(scene, context, task);
+  return buildSceneElement(scene, images, context, variant);
+}
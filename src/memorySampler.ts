@@ -0,0 +1,71 @@
+import { Worker } from "node:worker_threads";
+
+export interface MemorySamplerWorkerData {
+  intervalMs: number;
+  /** `[peakRssBytes, sampleCount]`, written by the worker only. */
+  state: SharedArrayBuffer;
+}
+
+export interface MemoryPeaks {
+  rss: number;
+  heapUsed: number;
+  external: number;
+  arrayBuffers: number;
+  samples: number;
+}
+
+export interface MemorySampler {
+  /** Records one main-thread sample; call it after each render to catch end-of-render peaks. */
+  record: () => void;
+  stop: () => Promise<MemoryPeaks>;
+}
+
+const workerEntryUrl = new URL("./memorySamplerWorker.js", import.meta.url);
+
+/**
+ * Polls memory every `intervalMs` while a case runs. RSS is process-wide, so a helper
+ * worker keeps sampling it even while a synchronous render blocks the main thread; the
+ * main-thread timer adds `heapUsed`, `external` and `arrayBuffers`, which only this
+ * isolate can read, whenever the loop is free (i.e. while native work runs on the libuv
+ * pool). An interval of 0 disables both and only samples after each render.
+ */
+export async function startMemorySampler(intervalMs: number): Promise<MemorySampler> {
+  const state = new BigInt64Array(new SharedArrayBuffer(2 * BigInt64Array.BYTES_PER_ELEMENT));
+  const peaks: MemoryPeaks = { rss: 0, heapUsed: 0, external: 0, arrayBuffers: 0, samples: 0 };
+
+  const record = () => {
+    const memory = process.memoryUsage();
+    peaks.rss = Math.max(peaks.rss, memory.rss);
+    peaks.heapUsed = Math.max(peaks.heapUsed, memory.heapUsed);
+    peaks.external = Math.max(peaks.external, memory.external);
+    peaks.arrayBuffers = Math.max(peaks.arrayBuffers, memory.arrayBuffers);
+    peaks.samples += 1;
+  };
+
+  if (intervalMs <= 0) {
+    return { record, stop: async () => peaks };
+  }
+
+  const data: MemorySamplerWorkerData = { intervalMs, state: state.buffer as SharedArrayBuffer };
+  const worker = new Worker(workerEntryUrl, { workerData: data });
+  await new Promise<void>((resolve, reject) => {
+    worker.once("error", reject);
+    worker.once("message", () => {
+      worker.off("error", reject);
+      resolve();
+    });
+  });
+
+  const timer = setInterval(record, intervalMs);
+
+  return {
+    record,
+    stop: async () => {
+      clearInterval(timer);
+      await worker.terminate();
+      peaks.rss = Math.max(peaks.rss, Number(Atomics.load(state, 0)));
+      peaks.samples += Number(Atomics.load(state, 1));
+      return peaks;
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import { parentPort, workerData } from "node:worker_threads";
+import type { MemorySamplerWorkerData } from "./memorySampler.js";
+
+const data = workerData as MemorySamplerWorkerData;
+const state = new BigInt64Array(data.state);
+
+// `rss()` reads the resident set of the whole process (`/proc/self/statm` on Linux), so
+// it sees native allocations made by the main thread while it is blocked.
+function sample(): void {
+  const rss = BigInt(process.memoryUsage.rss());
+
+  if (rss > Atomics.load(state, 0)) {
+    Atomics.store(state, 0, rss);
+  }
+
+  Atomics.add(state, 1, 1n);
+}
+
+sample();
+setInterval(sample, data.intervalMs);
+parentPort!.postMessage("ready");
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { validateImageOutput } from "./outputValidation.js";
+import type { BenchContext, TaskOutput } from "./types.js";
+
+const context = { width: 1280, height: 720, dpr: 1 } as BenchContext;
+const retina = { width: 1280, height: 720, dpr: 2 } as BenchContext;
+
+function image(format: "png" | "webp" | "svg", buffer: Buffer): Extract<TaskOutput, { kind: "image" }> {
+  return { kind: "image", format, buffer, bytes: buffer.length };
+}
+
+/** Signature and IHDR chunk only; validation reads no further. */
+function png(width: number, height: number): Buffer {
+  const buffer = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(buffer);
+  buffer.writeUInt32BE(13, 8);
+  buffer.write("IHDR", 12, "latin1");
+  buffer.writeUInt32BE(width, 16);
+  buffer.writeUInt32BE(height, 20);
+  return buffer;
+}
+
+/** A RIFF container around a VP8X chunk, whose canvas size is stored minus one. */
+function webpVp8x(width: number, height: number): Buffer {
+  const buffer = Buffer.alloc(30);
+  buffer.write("RIFF", 0, "latin1");
+  buffer.writeUInt32LE(buffer.length - 8, 4);
+  buffer.write("WEBPVP8X", 8, "latin1");
+  buffer.writeUInt32LE(10, 16);
+  buffer.writeUIntLE(width - 1, 24, 3);
+  buffer.writeUIntLE(height - 1, 27, 3);
+  return buffer;
+}
+
+describe("validateImageOutput", () => {
+  it("accepts a PNG of the device-pixel size", () => {
+    assert.deepEqual(validateImageOutput(image("png", png(1280, 720)), context), { valid: true, detail: "PNG 1280×720" });
+    assert.equal(validateImageOutput(image("png", png(2560, 1440)), retina).valid, true);
+  });
+
+  it("rejects a PNG of another size or without its signature", () => {
+    assert.equal(validateImageOutput(image("png", png(1280, 720)), retina).valid, false);
+
+    const broken = png(1280, 720);
+    broken[1] = 0;
+    assert.deepEqual(validateImageOutput(image("png", broken), context), {
+      valid: false,
+      detail: "missing PNG signature",
+    });
+  });
+
+  it("reads the canvas size of an extended WebP", () => {
+    assert.equal(validateImageOutput(image("webp", webpVp8x(1280, 720)), context).valid, true);
+    assert.equal(validateImageOutput(image("webp", webpVp8x(1280, 721)), context).valid, false);
+  });
+
+  it("rejects a WebP whose RIFF size does not match the buffer", () => {
+    const truncated = webpVp8x(1280, 720);
+    truncated.writeUInt32LE(100, 4);
+    assert.match(validateImageOutput(image("webp", truncated), context).detail, /RIFF size 108 does not match 30 bytes/);
+  });
+
+  it("accepts an SVG with the logical or device-pixel viewBox", () => {
+    const logical = Buffer.from('<?xml version="1.0"?><svg viewBox="0 0 1280 720"><rect width="1" height="1"/></svg>');
+    const physical = Buffer.from("<svg viewBox='0,0,2560,1440'><g></g></svg>");
+
+    assert.equal(validateImageOutput(image("svg", logical), context).valid, true);
+    assert.equal(validateImageOutput(image("svg", logical), retina).valid, true);
+    assert.equal(validateImageOutput(image("svg", physical), retina).valid, true);
+  });
+
+  it("rejects malformed SVG and a mismatched viewBox", () => {
+    const unclosed = Buffer.from('<svg viewBox="0 0 1280 720"><g></svg>');
+    const wrongSize = Buffer.from('<svg viewBox="0 0 640 360"></svg>');
+
+    assert.match(validateImageOutput(image("svg", unclosed), context).detail, /not well-formed/);
+    assert.match(validateImageOutput(image("svg", wrongSize), context).detail, /viewBox "0 0 640 360"/);
+  });
+
+  it("rejects empty outputs and a wrong byte count", () => {
+    assert.equal(validateImageOutput(image("png", Buffer.alloc(0)), context).detail, "empty output");
+    assert.equal(validateImageOutput({ ...image("png", png(1280, 720)), bytes: 1 }, context).valid, false);
+  });
+});
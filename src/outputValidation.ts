@@ -0,0 +1,250 @@
+import type { BenchContext, TaskOutput } from "./types.js";
+import { physicalSize } from "./utils.js";
+
+type ImageOutput = Extract<TaskOutput, { kind: "image" }>;
+
+export interface OutputValidation {
+  valid: boolean;
+  /** What was found (e.g. `PNG 1280×720`) or, when invalid, what is wrong. */
+  detail: string;
+}
+
+interface Dimensions {
+  width: number;
+  height: number;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Thrown by `runCase` when a render produced a broken or wrongly sized image. */
+export class InvalidOutputError extends Error {
+  readonly detail: string;
+
+  constructor(task: string, detail: string) {
+    super(`${task}: invalid output: ${detail}`);
+    this.name = "InvalidOutputError";
+    this.detail = detail;
+  }
+}
+
+function ascii(buffer: Buffer, start: number, length: number): string {
+  return buffer.toString("latin1", start, start + length);
+}
+
+/** Width and height from the IHDR chunk, which must come first. */
+function pngDimensions(buffer: Buffer): Dimensions | string {
+  if (buffer.length < 24 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return "missing PNG signature";
+  }
+
+  if (ascii(buffer, 12, 4) !== "IHDR") {
+    return "first PNG chunk is not IHDR";
+  }
+
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+}
+
+/** Width and height from the first chunk of a RIFF/WEBP container (VP8, VP8L or VP8X). */
+function webpDimensions(buffer: Buffer): Dimensions | string {
+  if (buffer.length < 30 || ascii(buffer, 0, 4) !== "RIFF" || ascii(buffer, 8, 4) !== "WEBP") {
+    return "missing RIFF/WEBP signature";
+  }
+
+  if (buffer.readUInt32LE(4) + 8 !== buffer.length) {
+    return `RIFF size ${buffer.readUInt32LE(4) + 8} does not match ${buffer.length} bytes`;
+  }
+
+  const chunk = ascii(buffer, 12, 4);
+
+  if (chunk === "VP8 ") {
+    // Lossy: 3-byte frame tag, start code 9d 01 2a, then 14-bit dimensions.
+    if (buffer[23] !== 0x9d || buffer[24] !== 0x01 || buffer[25] !== 0x2a) {
+      return "missing VP8 start code";
+    }
+
+    return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+  }
+
+  if (chunk === "VP8L") {
+    // Lossless: signature byte 0x2f, then 14-bit width - 1 and height - 1, bit-packed.
+    if (buffer[20] !== 0x2f) {
+      return "missing VP8L signature";
+    }
+
+    const bits = buffer.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+  }
+
+  if (chunk === "VP8X") {
+    // Extended: 24-bit canvas width - 1 and height - 1 after 4 bytes of flags.
+    return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+  }
+
+  return `unknown WebP chunk "${chunk}"`;
+}
+
+/**
+ * Checks that the markup is well-formed XML (balanced, properly nested tags with quoted
+ * attributes under a single root) and returns the root element's attributes. Entities and
+ * DTDs are not interpreted; no renderer emits them.
+ */
+function parseSvgRoot(svg: string): { name: string; attributes: Map<string, string> } | string {
+  // Sticky, so each tag is matched in place; attribute values can be megabyte data URIs.
+  const tagPattern = /<(\/?)([A-Za-z_][\w.:-]*)((?:\s+[A-Za-z_][\w.:-]*\s*=\s*(?:"[^"<]*"|'[^'<]*'))*)\s*(\/?)>/y;
+  const stack: string[] = [];
+  let root: { name: string; attributes: Map<string, string> } | null = null;
+  let index = 0;
+
+  while (index < svg.length) {
+    const open = svg.indexOf("<", index);
+
+    if (open === -1) {
+      break;
+    }
+
+    if (stack.length === 0 && svg.slice(index, open).trim() !== "") {
+      return "text outside the root element";
+    }
+
+    const skip = [
+      ["<?", "?>"],
+      ["<!--", "-->"],
+      ["<![CDATA[", "]]>"],
+      ["<!", ">"],
+    ].find(([start]) => svg.startsWith(start!, open));
+
+    if (skip) {
+      const end = svg.indexOf(skip[1]!, open + skip[0]!.length);
+
+      if (end === -1) {
+        return `unterminated "${skip[0]}"`;
+      }
+
+      index = end + skip[1]!.length;
+      continue;
+    }
+
+    tagPattern.lastIndex = open;
+    const tag = tagPattern.exec(svg);
+
+    if (!tag) {
+      return `malformed tag at offset ${open}`;
+    }
+
+    const [, closing, name, attributeSource, selfClosing] = tag;
+
+    if (closing) {
+      const expected = stack.pop();
+
+      if (expected !== name) {
+        return `</${name}> closes ${expected ? `<${expected}>` : "nothing"}`;
+      }
+    } else if (stack.length === 0 && root) {
+      return "more than one root element";
+    } else {
+      if (!root) {
+        const attributes = new Map<string, string>();
+
+        for (const match of attributeSource!.matchAll(/([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+          attributes.set(match[1]!, match[2] ?? match[3]!);
+        }
+
+        root = { name: name!, attributes };
+      }
+
+      if (!selfClosing) {
+        stack.push(name!);
+      }
+    }
+
+    index = tagPattern.lastIndex;
+  }
+
+  if (stack.length > 0) {
+    return `<${stack.at(-1)}> is never closed`;
+  }
+
+  if (!root) {
+    return "no root element";
+  }
+
+  if (svg.slice(index).trim() !== "") {
+    return "text after the root element";
+  }
+
+  return root;
+}
+
+/**
+ * The viewBox must start at the origin and span the output. SVG is resolution-independent,
+ * so both the logical size (satori, node-canvas) and the device-pixel size (canvases drawn at
+ * `dpr`) are accepted.
+ */
+function validateSvg(buffer: Buffer, context: BenchContext): OutputValidation {
+  const root = parseSvgRoot(buffer.toString("utf8"));
+
+  if (typeof root === "string") {
+    return { valid: false, detail: `SVG is not well-formed: ${root}` };
+  }
+
+  if (root.name !== "svg") {
+    return { valid: false, detail: `root element is <${root.name}>, not <svg>` };
+  }
+
+  const viewBox = root.attributes.get("viewBox");
+
+  if (viewBox === undefined) {
+    return { valid: false, detail: "SVG has no viewBox" };
+  }
+
+  const values = viewBox.trim().split(/[\s,]+/).map(Number);
+  const physical = physicalSize(context);
+  const matches = [context, physical].some(
+    (size) => values[0] === 0 && values[1] === 0 && values[2] === size.width && values[3] === size.height,
+  );
+
+  if (values.length !== 4 || !matches) {
+    return {
+      valid: false,
+      detail: `viewBox "${viewBox}" is not "0 0 ${context.width} ${context.height}"${context.dpr === 1 ? "" : ` or "0 0 ${physical.width} ${physical.height}"`}`,
+    };
+  }
+
+  return { valid: true, detail: `SVG ${values[2]}×${values[3]}` };
+}
+
+/**
+ * Checks an image output against what the context asked for: the format's signature, and the
+ * pixel size from the PNG IHDR or WebP VP8/VP8L/VP8X header (or the SVG viewBox).
+ */
+export function validateImageOutput(output: ImageOutput, context: BenchContext): OutputValidation {
+  if (output.buffer.length === 0) {
+    return { valid: false, detail: "empty output" };
+  }
+
+  if (output.bytes !== output.buffer.length) {
+    return { valid: false, detail: `reported ${output.bytes} bytes but the buffer holds ${output.buffer.length}` };
+  }
+
+  if (output.format === "svg") {
+    return validateSvg(output.buffer, context);
+  }
+
+  const label = output.format.toUpperCase();
+  const dimensions = output.format === "png" ? pngDimensions(output.buffer) : webpDimensions(output.buffer);
+
+  if (typeof dimensions === "string") {
+    return { valid: false, detail: dimensions };
+  }
+
+  const expected = physicalSize(context);
+
+  if (dimensions.width !== expected.width || dimensions.height !== expected.height) {
+    return {
+      valid: false,
+      detail: `${label} is ${dimensions.width}×${dimensions.height}, expected ${expected.width}×${expected.height}`,
+    };
+  }
+
+  return { valid: true, detail: `${label} ${dimensions.width}×${dimensions.height}` };
+}
@@ -0,0 +1,68 @@
+import { parentPort, workerData } from "node:worker_threads";
+import { buildBenchContext, withOutputSize } from "./context.js";
+import { rendererLoaders } from "./renderers/loaders.js";
+import { UnsupportedTaskError } from "./utils.js";
+import type { PoolRequest, PoolResponse, PoolWorkerData } from "./workerPool.js";
+
+const port = parentPort!;
+const data = workerData as PoolWorkerData;
+
+function post(response: PoolResponse, transfer: ArrayBuffer[] = []): void {
+  port.postMessage(response, transfer);
+}
+
+async function startup() {
+  const start = performance.now();
+  const loadRenderer = rendererLoaders[data.renderer];
+
+  if (!loadRenderer) {
+    throw new Error(`Unknown renderer: ${data.renderer}`);
+  }
+
+  const context = buildBenchContext(data.base, {
+    background: Buffer.from(data.shared.background),
+    avatar: Buffer.from(data.shared.avatar),
+    badge: Buffer.from(data.shared.badge),
+  });
+  const renderer = await loadRenderer();
+  await renderer.prepare?.(context);
+
+  return { context, renderer, prepareMs: performance.now() - start };
+}
+
+try {
+  const { context, renderer, prepareMs } = await startup();
+
+  port.on("message", async ({ id, task, size }: PoolRequest) => {
+    const renderStart = performance.now();
+
+    try {
+      const output = await renderer.run(withOutputSize(context, size), task);
+      const renderMs = performance.now() - renderStart;
+
+      if (output.kind !== "image") {
+        post({ type: "output", id, output, renderMs });
+        return;
+      }
+
+      // Copy into a standalone ArrayBuffer: native encoders may hand back pooled or
+      // non-detachable memory that cannot be transferred directly.
+      const transferable = new Uint8Array(output.buffer);
+      post(
+        { type: "output", id, output: { ...output, buffer: transferable as Buffer }, renderMs },
+        [transferable.buffer],
+      );
+    } catch (error) {
+      post({
+        type: "error",
+        id,
+        message: (error as Error).stack ?? String(error),
+        unsupportedDetail: error instanceof UnsupportedTaskError ? error.detail : null,
+      });
+    }
+  });
+
+  post({ type: "ready", prepareMs });
+} catch (error) {
+  post({ type: "error", id: null, message: (error as Error).stack ?? String(error), unsupportedDetail: null });
+}
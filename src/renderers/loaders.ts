@@ -0,0 +1,16 @@
+import type { BenchRenderer } from "../types.js";
+
+/**
+ * Lazy per-renderer entry points, in report order. Importing this file does not load any
+ * image library, so a run only loads the renderers it selected and callers can time the
+ * import of a single renderer module.
+ */
+export const rendererLoaders: Record<string, () => Promise<BenchRenderer>> = {
+  "@napi-rs/canvas": async () => (await import("./napiCanvas.js")).napiCanvasBenchRenderer,
+  "node-canvas": async () => (await import("./nodeCanvas.js")).nodeCanvasBenchRenderer,
+  "skia-canvas": async () => (await import("./skiaCanvas.js")).skiaCanvasBenchRenderer,
+  "takumi (jsx+style)": async () => (await import("./takumi.js")).takumiStyleBenchRenderer,
+  "takumi (jsx+tw)": async () => (await import("./takumi.js")).takumiTailwindBenchRenderer,
+  "satori (jsx+style)": async () => (await import("./satori.js")).satoriStyleBenchRenderer,
+  "satori (jsx+tw)": async () => (await import("./satori.js")).satoriTailwindBenchRenderer,
+};
@@ -1,25 +1,30 @@
 import { createCanvas, GlobalFonts, loadImage } from "@napi-rs/canvas";
-import { drawCoverImage, drawKitchenSink, measureTextLayout } from "../canvasScene.js";
+import { applyDevicePixelRatio, drawScene, measureTextLayout } from "../canvasScene.js";
+import { loadTaskScene, resolveSceneImages } from "../scene.js";
+import { totalTextWidth } from "../textLayout.js";
 import type { BenchContext, BenchRenderer } from "../types.js";
-import { UnsupportedTaskError, streamToBuffer } from "../utils.js";
+import { UnsupportedTaskError, physicalSize } from "../utils.js";
 
-let fontsRegistered = false;
+const registeredFonts = new Set<string>();
 
+// @napi-rs/canvas reads weight and style from the font file itself; only the family is ours.
 function ensureFonts(context: BenchContext): void {
-  if (fontsRegistered) {
-    return;
-  }
+  for (const font of context.fonts) {
+    const key = `${font.family}\u0000${font.path}`;
 
-  GlobalFonts.registerFromPath(context.fontPaths.regular, context.fontFamily);
-  GlobalFonts.registerFromPath(context.fontPaths.semibold, context.fontFamily);
-  fontsRegistered = true;
+    if (!registeredFonts.has(key)) {
+      GlobalFonts.registerFromPath(font.path, font.family);
+      registeredFonts.add(key);
+    }
+  }
 }
 
 async function encodeCanvas(
   canvas: ReturnType<typeof createCanvas> & {
-    encode?: (format: "png" | "webp") => Promise<Buffer | Uint8Array>;
+    encode?: (format: "png" | "webp", quality?: number) => Promise<Buffer | Uint8Array>;
   },
   format: "png" | "webp" | "svg",
+  context: BenchContext,
   task: string,
 ): Promise<Buffer> {
   if (format === "svg") {
@@ -31,7 +36,10 @@ async function encodeCanvas(
       throw new Error("encode() is not available on this canvas instance");
     }
 
-    const output = await canvas.encode(format);
+    const output =
+      format === "webp" && context.webpQuality !== null
+        ? await canvas.encode(format, context.webpQuality)
+        : await canvas.encode(format);
     return Buffer.isBuffer(output) ? output : Buffer.from(output);
   } catch (error) {
     throw new UnsupportedTaskError(task, `failed to encode ${format}: ${(error as Error).message}`);
@@ -46,29 +54,16 @@ export const napiCanvasBenchRenderer: BenchRenderer = {
   run: async (context, task) => {
     ensureFonts(context);
 
-    const canvas = createCanvas(context.width, context.height) as unknown as ReturnType<typeof createCanvas> & {
-      encode?: (format: "png" | "webp") => Promise<Buffer | Uint8Array>;
+    const physical = physicalSize(context);
+    const canvas = createCanvas(physical.width, physical.height) as unknown as ReturnType<typeof createCanvas> & {
+      encode?: (format: "png" | "webp", quality?: number) => Promise<Buffer | Uint8Array>;
     };
-    const ctx = canvas.getContext("2d") as unknown as Parameters<typeof drawKitchenSink>[0];
-
-    if (task === "image-buffer") {
-      const image = await loadImage(context.buffers.background);
-      drawCoverImage(ctx, canvas, image as { width: number; height: number });
-      const png = await encodeCanvas(canvas, "png", task);
-      return { kind: "image", format: "png", bytes: png.length, buffer: png };
-    }
-
-    if (task === "image-stream") {
-      const sourceBuffer = await streamToBuffer(context.createBackgroundStream());
-      const image = await loadImage(sourceBuffer);
-      drawCoverImage(ctx, canvas, image as { width: number; height: number });
-      const png = await encodeCanvas(canvas, "png", task);
-      return { kind: "image", format: "png", bytes: png.length, buffer: png };
-    }
+    const ctx = canvas.getContext("2d") as unknown as Parameters<typeof drawScene>[0];
+    applyDevicePixelRatio(ctx, context);
 
     if (task === "text-layout") {
-      const total = measureTextLayout(ctx, context);
-      return { kind: "metric", value: total };
+      const samples = measureTextLayout(ctx, context);
+      return { kind: "metric", value: totalTextWidth(samples), textLayout: samples };
     }
 
     const format =
@@ -78,24 +73,13 @@ export const napiCanvasBenchRenderer: BenchRenderer = {
           ? "svg"
           : "png";
 
-    const [background, avatar, badge] = await Promise.all([
-      loadImage(context.buffers.background),
-      loadImage(context.buffers.avatar),
-      loadImage(context.buffers.badge),
-    ]);
-
-    drawKitchenSink(
-      ctx,
-      canvas,
-      {
-        background: background as { width: number; height: number },
-        avatar,
-        badge,
-      },
-      context,
+    const scene = await loadTaskScene(context, task);
+    const images = await resolveSceneImages(scene, context, task, async (source) =>
+      (await loadImage(source.buffer)) as { width: number; height: number },
     );
+    drawScene(ctx, scene, images, context);
 
-    const output = await encodeCanvas(canvas, format, task);
+    const output = await encodeCanvas(canvas, format, context, task);
 
     return {
       kind: "image",
@@ -1,28 +1,37 @@
 import { createCanvas, loadImage, registerFont } from "canvas";
-import { drawCoverImage, drawKitchenSink, measureTextLayout } from "../canvasScene.js";
-import type { BenchContext, BenchRenderer } from "../types.js";
-import { UnsupportedTaskError, streamToBuffer } from "../utils.js";
+import { applyDevicePixelRatio, drawScene, measureTextLayout } from "../canvasScene.js";
+import { loadTaskScene, resolveSceneImages } from "../scene.js";
+import { totalTextWidth } from "../textLayout.js";
+import type { BenchContext, BenchRenderer, BenchTaskName } from "../types.js";
+import { UnsupportedTaskError, fontSetKey, physicalSize } from "../utils.js";
 
-let fontsRegistered = false;
+const registeredFonts = new Set<string>();
 
 function ensureFonts(context: BenchContext): void {
-  if (fontsRegistered) {
-    return;
+  for (const font of context.fonts) {
+    const key = fontSetKey([font]);
+
+    if (!registeredFonts.has(key)) {
+      registerFont(font.path, {
+        family: font.family,
+        weight: String(font.weight),
+        style: font.style,
+      });
+      registeredFonts.add(key);
+    }
   }
+}
 
-  registerFont(context.fontPaths.regular, {
-    family: context.fontFamily,
-    weight: "400",
-    style: "normal",
-  });
-
-  registerFont(context.fontPaths.semibold, {
-    family: context.fontFamily,
-    weight: "600",
-    style: "normal",
-  });
-
-  fontsRegistered = true;
+async function drawTaskScene(
+  ctx: Parameters<typeof drawScene>[0],
+  context: BenchContext,
+  task: BenchTaskName,
+): Promise<void> {
+  const scene = await loadTaskScene(context, task);
+  const images = await resolveSceneImages(scene, context, task, (source) =>
+    loadImage(source.buffer),
+  );
+  drawScene(ctx, scene, images, context);
 }
 
 function encodeRasterCanvas(
@@ -63,71 +72,27 @@ export const nodeCanvasBenchRenderer: BenchRenderer = {
     ensureFonts(context);
 
     if (task === "encode-svg") {
+      // SVG output is resolution-independent, so it stays at the logical size for every DPR.
       const svgCanvas = createCanvas(context.width, context.height, "svg");
-      const svgCtx = svgCanvas.getContext("2d") as unknown as Parameters<typeof drawKitchenSink>[0];
-
-      const [background, avatar, badge] = await Promise.all([
-        loadImage(context.buffers.background),
-        loadImage(context.buffers.avatar),
-        loadImage(context.buffers.badge),
-      ]);
-
-      drawKitchenSink(
-        svgCtx,
-        svgCanvas,
-        {
-          background: background as { width: number; height: number },
-          avatar,
-          badge,
-        },
-        context,
-      );
+      const svgCtx = svgCanvas.getContext("2d") as unknown as Parameters<typeof drawScene>[0];
+      await drawTaskScene(svgCtx, context, task);
 
       const svg = encodeSvgCanvas(svgCanvas, task);
       return { kind: "image", format: "svg", bytes: svg.length, buffer: svg };
     }
 
-    const canvas = createCanvas(context.width, context.height);
-    const ctx = canvas.getContext("2d") as unknown as Parameters<typeof drawKitchenSink>[0];
-
-    if (task === "image-buffer") {
-      const image = await loadImage(context.buffers.background);
-      drawCoverImage(ctx, canvas, image as { width: number; height: number });
-      const png = encodeRasterCanvas(canvas, "png", task);
-      return { kind: "image", format: "png", bytes: png.length, buffer: png };
-    }
-
-    if (task === "image-stream") {
-      const sourceBuffer = await streamToBuffer(context.createBackgroundStream());
-      const image = await loadImage(sourceBuffer);
-      drawCoverImage(ctx, canvas, image as { width: number; height: number });
-      const png = encodeRasterCanvas(canvas, "png", task);
-      return { kind: "image", format: "png", bytes: png.length, buffer: png };
-    }
+    const physical = physicalSize(context);
+    const canvas = createCanvas(physical.width, physical.height);
+    const ctx = canvas.getContext("2d") as unknown as Parameters<typeof drawScene>[0];
+    applyDevicePixelRatio(ctx, context);
 
     if (task === "text-layout") {
-      const total = measureTextLayout(ctx, context);
-      return { kind: "metric", value: total };
+      const samples = measureTextLayout(ctx, context);
+      return { kind: "metric", value: totalTextWidth(samples), textLayout: samples };
     }
 
     const format = task === "encode-webp" ? "webp" : "png";
-
-    const [background, avatar, badge] = await Promise.all([
-      loadImage(context.buffers.background),
-      loadImage(context.buffers.avatar),
-      loadImage(context.buffers.badge),
-    ]);
-
-    drawKitchenSink(
-      ctx,
-      canvas,
-      {
-        background: background as { width: number; height: number },
-        avatar,
-        badge,
-      },
-      context,
-    );
+    await drawTaskScene(ctx, context, task);
 
     const output = encodeRasterCanvas(canvas, format, task);
     return { kind: "image", format, bytes: output.length, buffer: output };
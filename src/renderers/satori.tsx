@@ -1,56 +1,50 @@
 import { readFile } from "node:fs/promises";
 import { Resvg } from "@resvg/resvg-js";
 import type { ReactElement } from "react";
-import satori from "satori";
-import type { BenchContext, BenchRenderer, BenchTaskName } from "../types.js";
-import { UnsupportedTaskError, streamToBuffer, toDataUri } from "../utils.js";
+import satori, { type Font as SatoriFont, type FontWeight, type SatoriNode, type SatoriOptions } from "satori";
+import { type JsxSceneVariant, buildTaskElement } from "../jsxScene.js";
+import { textLayoutSpecs, totalTextWidth } from "../textLayout.js";
+import type { BenchContext, BenchRenderer, BenchTaskName, TextLayoutSample } from "../types.js";
+import { UnsupportedTaskError, fontSetKey, scaled } from "../utils.js";
 
-type SatoriVariant = "style" | "tailwind";
+type SatoriVariant = JsxSceneVariant;
 
-let fontsPromise: Promise<
-  {
-    name: string;
-    data: ArrayBuffer;
-    style: "normal";
-    weight: 400 | 600;
-  }[]
-> | null = null;
+let fontsCache: { key: string; fonts: Promise<SatoriFont[]> } | null = null;
 
 function toArrayBuffer(buffer: Buffer): ArrayBuffer {
   return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
 }
 
-function getFonts(context: BenchContext): Promise<
-  {
-    name: string;
-    data: ArrayBuffer;
-    style: "normal";
-    weight: 400 | 600;
-  }[]
-> {
-  if (!fontsPromise) {
-    fontsPromise = Promise.all([readFile(context.fontPaths.regular), readFile(context.fontPaths.semibold)]).then(
-      ([regular, semibold]) => [
-        {
-          name: context.fontFamily,
-          data: toArrayBuffer(regular),
-          style: "normal" as const,
-          weight: 400 as const,
-        },
-        {
-          name: context.fontFamily,
-          data: toArrayBuffer(semibold),
-          style: "normal" as const,
-          weight: 600 as const,
-        },
-      ],
-    );
+/** Satori only declares weights in steps of 100, so others snap to the nearest step. */
+function toSatoriWeight(weight: number): FontWeight {
+  return (Math.min(9, Math.max(1, Math.round(weight / 100))) * 100) as FontWeight;
+}
+
+function getFonts(context: BenchContext): Promise<SatoriFont[]> {
+  const key = fontSetKey(context.fonts);
+
+  if (fontsCache?.key !== key) {
+    fontsCache = {
+      key,
+      fonts: Promise.all(
+        context.fonts.map(async (font) => ({
+          name: font.family,
+          data: toArrayBuffer(await readFile(font.path)),
+          style: font.style,
+          weight: toSatoriWeight(font.weight),
+        })),
+      ),
+    };
   }
 
-  return fontsPromise;
+  return fontsCache.fonts;
 }
 
-async function renderToSvg(context: BenchContext, element: ReactElement): Promise<string> {
+async function renderToSvg(
+  context: BenchContext,
+  element: ReactElement,
+  onNodeDetected?: SatoriOptions["onNodeDetected"],
+): Promise<string> {
   return satori(element, {
     width: context.width,
     height: context.height,
@@ -60,35 +54,41 @@ async function renderToSvg(context: BenchContext, element: ReactElement): Promis
         extend: {},
       },
     },
+    onNodeDetected,
   });
 }
 
-function svgToPng(svg: string): Buffer {
-  return Buffer.from(new Resvg(svg).render().asPng());
+/**
+ * Satori lays out at the logical size; resvg zooms the vector output to the device pixel
+ * ratio so HiDPI PNGs are rasterized at full resolution rather than upscaled.
+ */
+function svgToPng(svg: string, context: BenchContext): Buffer {
+  const options = context.dpr === 1 ? undefined : { fitTo: { mode: "zoom" as const, value: context.dpr } };
+  return Buffer.from(new Resvg(svg, options).render().asPng());
 }
 
-function buildImageElement(context: BenchContext, source: string, variant: SatoriVariant): ReactElement {
+/** Keys let `onNodeDetected` map each sample's Yoga box back to its sample. */
+function buildTextLayoutElement(context: BenchContext, variant: SatoriVariant): ReactElement {
+  const px = (value: number) => scaled(context, value);
+  const specs = textLayoutSpecs(context);
+
   if (variant === "tailwind") {
+    // Sizes mirror `gap-2` and `p-10` at 1280×720 and scale with the output.
     return (
       <div
-        tw="relative flex overflow-hidden"
-        style={{
-          width: context.width,
-          height: context.height,
-          backgroundColor: "#0f172a",
-        }}
+        tw="flex h-full w-full flex-col items-start bg-slate-900 text-white"
+        style={{ gap: px(8), padding: px(40), fontFamily: context.fontFamily }}
       >
-        <img
-          src={source}
-          tw="absolute"
-          style={{
-            left: 0,
-            top: 0,
-            width: context.width,
-            height: context.height,
-            objectFit: "cover",
-          }}
-        />
+        {specs.map((spec, index) => (
+          <div
+            key={`sample-${index}`}
+            tw={spec.fontWeight === 600 ? "flex font-semibold" : "flex font-normal text-slate-200"}
+            // Satori's Tailwind has no `whitespace-pre`.
+            style={{ whiteSpace: "pre", fontSize: spec.fontSize, lineHeight: `${spec.lineHeight}px` }}
+          >
+            {spec.text}
+          </div>
+        ))}
       </div>
     );
   }
@@ -98,398 +98,115 @@ function buildImageElement(context: BenchContext, source: string, variant: Sator
       style={{
         width: context.width,
         height: context.height,
-        position: "relative",
         display: "flex",
-        overflow: "hidden",
+        flexDirection: "column",
+        alignItems: "flex-start",
+        gap: px(8),
         backgroundColor: "#0f172a",
+        color: "#ffffff",
+        padding: px(40),
+        fontFamily: context.fontFamily,
       }}
     >
-      <img
-        src={source}
-        style={{
-          position: "absolute",
-          left: 0,
-          top: 0,
-          width: context.width,
-          height: context.height,
-          objectFit: "cover",
-        }}
-      />
-    </div>
-  );
-}
-
-function buildKitchenSinkElement(context: BenchContext, variant: SatoriVariant): ReactElement {
-  const progressWidth = Math.round((context.width - 84) * 0.67);
-  const overlayGradient = "linear-gradient(135deg, rgba(10, 18, 32, 0.65) 0%, rgba(24, 42, 64, 0.25) 50%, rgba(8, 12, 20, 0.8) 100%)";
-
-  if (variant === "tailwind") {
-    return (
-      <div
-        tw="relative flex overflow-hidden text-white"
-        style={{
-          width: context.width,
-          height: context.height,
-          backgroundColor: "#000000",
-        }}
-      >
-        <img
-          src={context.dataUris.background}
-          tw="absolute"
-          style={{
-            left: 0,
-            top: 0,
-            width: context.width,
-            height: context.height,
-            objectFit: "cover",
-          }}
-        />
-        <div
-          tw="absolute"
-          style={{
-            left: 0,
-            top: 0,
-            width: context.width,
-            height: context.height,
-            backgroundImage: overlayGradient,
-          }}
-        />
-
+      {specs.map((spec, index) => (
         <div
-          tw="absolute flex overflow-hidden"
+          key={`sample-${index}`}
           style={{
-            left: 42,
-            top: 42,
-            width: 220,
-            height: 220,
-            borderRadius: 28,
+            display: "flex",
+            whiteSpace: "pre",
+            fontSize: spec.fontSize,
+            fontWeight: spec.fontWeight,
+            lineHeight: `${spec.lineHeight}px`,
+            color: spec.color,
           }}
         >
-          <img
-            src={context.dataUris.avatar}
-            tw="absolute"
-            style={{
-              left: 0,
-              top: 0,
-              width: 220,
-              height: 220,
-              objectFit: "cover",
-            }}
-          />
+          {spec.text}
         </div>
+      ))}
+    </div>
+  );
+}
 
-        <div
-          tw="absolute flex overflow-hidden"
-          style={{
-            left: 288,
-            top: 64,
-            width: 120,
-            height: 120,
-            borderRadius: 24,
-          }}
-        >
-          <img
-            src={context.dataUris.badge}
-            tw="absolute"
-            style={{
-              left: 0,
-              top: 0,
-              width: 120,
-              height: 120,
-              objectFit: "cover",
-            }}
-          />
-        </div>
-
-        <div
-          tw="absolute"
-          style={{
-            left: 42,
-            top: 288,
-            width: context.width - 84,
-            height: 54,
-            borderRadius: 27,
-            backgroundColor: "rgba(31, 41, 55, 0.95)",
-          }}
-        />
-        <div
-          tw="absolute"
-          style={{
-            left: 42,
-            top: 288,
-            width: progressWidth,
-            height: 54,
-            borderRadius: 27,
-            backgroundColor: "#4f91df",
-          }}
-        />
-
-        <div
-          tw="absolute rounded-full"
-          style={{
-            left: context.width - 102,
-            top: 60,
-            width: 56,
-            height: 56,
-            backgroundColor: "#f59e0b",
-          }}
-        />
-        <div
-          tw="absolute rounded-full"
-          style={{
-            left: context.width - 92,
-            top: 70,
-            width: 36,
-            height: 36,
-            backgroundColor: "#111827",
-          }}
-        />
-
-        <div
-          tw="absolute flex"
-          style={{
-            left: 438,
-            top: 58,
-            color: "#ffffff",
-            fontFamily: context.fontFamily,
-            fontSize: 64,
-            fontWeight: 700,
-          }}
-        >
-          Image Benchmark Suite
-        </div>
-        <div
-          tw="absolute flex"
-          style={{
-            left: 438,
-            top: 136,
-            color: "rgba(255, 255, 255, 0.82)",
-            fontFamily: context.fontFamily,
-            fontSize: 30,
-            fontWeight: 400,
-          }}
-        >
-          buffer | stream | kitchen sink | text layout | format compare
-        </div>
-        <div
-          tw="absolute flex"
-          style={{
-            left: 438,
-            top: 194,
-            color: "#d1e5ff",
-            fontFamily: context.fontFamily,
-            fontSize: 44,
-            fontWeight: 600,
-          }}
-        >
-          PNG / WEBP / SVG
-        </div>
-        <div
-          tw="absolute flex"
-          style={{
-            left: 42,
-            top: 364,
-            color: "#ffffff",
-            fontFamily: context.fontFamily,
-            fontSize: 28,
-            fontWeight: 400,
-          }}
-        >
-          {`samples: ${context.textSamples.length}`}
-        </div>
-        <div
-          tw="absolute flex"
-          style={{
-            left: 42,
-            top: 404,
-            color: "#ffffff",
-            fontFamily: context.fontFamily,
-            fontSize: 28,
-            fontWeight: 400,
-          }}
-        >
-          stream source is in-memory (disk I/O excluded)
-        </div>
-      </div>
+/**
+ * The baseline of one text `<path>`: the y most glyph contours rest on with a flat bottom
+ * (stems of `n`, `l`, `H`…). Round glyphs overshoot it and descenders sit below it, so those
+ * only decide when no glyph has a flat bottom.
+ */
+function pathBaseline(d: string): number {
+  const flatBottoms: number[] = [];
+  const bottoms: number[] = [];
+  let contour: Array<[number, number]> = [];
+
+  const closeContour = () => {
+    if (contour.length === 0) {
+      return;
+    }
+
+    const bottom = Math.max(...contour.map(([, y]) => y));
+    const flat = contour.some(
+      ([x, y], index) => index > 0 && y === bottom && contour[index - 1]![1] === bottom && contour[index - 1]![0] !== x,
     );
-  }
+    (flat ? flatBottoms : bottoms).push(bottom);
+    contour = [];
+  };
 
-  return (
-    <div
-      style={{
-        width: context.width,
-        height: context.height,
-        position: "relative",
-        display: "flex",
-        overflow: "hidden",
-        backgroundColor: "#000000",
-        color: "#ffffff",
-        fontFamily: context.fontFamily,
-      }}
-    >
-      <img
-        src={context.dataUris.background}
-        style={{
-          position: "absolute",
-          left: 0,
-          top: 0,
-          width: context.width,
-          height: context.height,
-          objectFit: "cover",
-        }}
-      />
+  for (const [, command, args] of d.matchAll(/([MLQCZ])([^MLQCZ]*)/gi)) {
+    const numbers = args!.trim().split(/[\s,]+/).filter(Boolean).map(Number);
 
-      <div
-        style={{
-          position: "absolute",
-          left: 0,
-          top: 0,
-          width: context.width,
-          height: context.height,
-          backgroundImage: overlayGradient,
-        }}
-      />
+    if (command!.toUpperCase() === "M") {
+      closeContour();
+    }
 
-      <div
-        style={{
-          position: "absolute",
-          left: 42,
-          top: 42,
-          width: 220,
-          height: 220,
-          borderRadius: 28,
-          display: "flex",
-          overflow: "hidden",
-        }}
-      >
-        <img src={context.dataUris.avatar} style={{ width: 220, height: 220, objectFit: "cover" }} />
-      </div>
+    if (numbers.length >= 2) {
+      contour.push([numbers.at(-2)!, numbers.at(-1)!]);
+    }
+  }
 
-      <div
-        style={{
-          position: "absolute",
-          left: 288,
-          top: 64,
-          width: 120,
-          height: 120,
-          borderRadius: 24,
-          display: "flex",
-          overflow: "hidden",
-        }}
-      >
-        <img src={context.dataUris.badge} style={{ width: 120, height: 120, objectFit: "cover" }} />
-      </div>
+  closeContour();
 
-      <div
-        style={{
-          position: "absolute",
-          left: 42,
-          top: 288,
-          width: context.width - 84,
-          height: 54,
-          borderRadius: 27,
-          backgroundColor: "rgba(31, 41, 55, 0.95)",
-        }}
-      />
+  const candidates = flatBottoms.length > 0 ? flatBottoms : bottoms;
+  const counts = new Map<number, number>();
 
-      <div
-        style={{
-          position: "absolute",
-          left: 42,
-          top: 288,
-          width: progressWidth,
-          height: 54,
-          borderRadius: 27,
-          backgroundColor: "#4f91df",
-        }}
-      />
+  for (const y of candidates) {
+    counts.set(y, (counts.get(y) ?? 0) + 1);
+  }
 
-      <div
-        style={{
-          position: "absolute",
-          left: context.width - 102,
-          top: 60,
-          width: 56,
-          height: 56,
-          borderRadius: 28,
-          backgroundColor: "#f59e0b",
-        }}
-      />
-      <div
-        style={{
-          position: "absolute",
-          left: context.width - 92,
-          top: 70,
-          width: 36,
-          height: 36,
-          borderRadius: 18,
-          backgroundColor: "#111827",
-        }}
-      />
-
-      <div style={{ position: "absolute", left: 438, top: 58, display: "flex", color: "#ffffff", fontSize: 64, fontWeight: 700 }}>
-        Image Benchmark Suite
-      </div>
-      <div style={{ position: "absolute", left: 438, top: 136, display: "flex", color: "rgba(255, 255, 255, 0.82)", fontSize: 30, fontWeight: 400 }}>
-        buffer | stream | kitchen sink | text layout | format compare
-      </div>
-      <div style={{ position: "absolute", left: 438, top: 194, display: "flex", color: "#d1e5ff", fontSize: 44, fontWeight: 600 }}>
-        PNG / WEBP / SVG
-      </div>
-      <div style={{ position: "absolute", left: 42, top: 364, display: "flex", color: "#ffffff", fontSize: 28, fontWeight: 400 }}>
-        {`samples: ${context.textSamples.length}`}
-      </div>
-      <div style={{ position: "absolute", left: 42, top: 404, display: "flex", color: "#ffffff", fontSize: 28, fontWeight: 400 }}>
-        stream source is in-memory (disk I/O excluded)
-      </div>
-    </div>
-  );
+  // Ties go to the higher line: descenders are rarer than glyphs on the baseline.
+  return [...counts.entries()].sort((left, right) => right[1] - left[1] || left[0] - right[0])[0]?.[0] ?? 0;
 }
 
-function buildTextLayoutElement(context: BenchContext, variant: SatoriVariant): ReactElement {
-  if (variant === "tailwind") {
-    return (
-      <div tw="flex h-full w-full flex-col bg-slate-900 p-10 text-white">
-        {context.textSamples.map((sample, index) => (
-          <div
-            key={`${index}-${sample}`}
-            tw={index % 2 === 0 ? "text-4xl font-semibold" : "mt-2 text-2xl font-normal text-slate-200"}
-          >
-            {sample}
-          </div>
-        ))}
-      </div>
+/**
+ * Width, height and line count come from each sample's Yoga box, which Satori rounds to whole
+ * pixels. Text is emitted as one glyph-outline `<path>` per sample in document order, with
+ * absolute coordinates, so the baseline is read from the outlines.
+ */
+function readTextLayout(svg: string, boxes: Map<string, SatoriNode>, context: BenchContext): TextLayoutSample[] {
+  const paths = [...svg.matchAll(/<path\b[^>]*\sd="([^"]*)"/g)].map((match) => match[1]!);
+  const specs = textLayoutSpecs(context);
+
+  if (paths.length !== specs.length) {
+    // An empty sample, or one satori draws as images only, leaves no path to read.
+    throw new UnsupportedTaskError(
+      "text-layout",
+      `Satori emitted ${paths.length} text paths for ${specs.length} samples; a sample without glyph outlines cannot be measured`,
     );
   }
 
-  return (
-    <div
-      style={{
-        width: context.width,
-        height: context.height,
-        display: "flex",
-        flexDirection: "column",
-        gap: 8,
-        backgroundColor: "#0f172a",
-        color: "#ffffff",
-        padding: 40,
-        fontFamily: context.fontFamily,
-      }}
-    >
-      {context.textSamples.map((sample, index) => (
-        <div
-          key={`${index}-${sample}`}
-          style={{
-            fontSize: index % 2 === 0 ? 40 : 24,
-            fontWeight: index % 2 === 0 ? 600 : 400,
-            color: index % 2 === 0 ? "#ffffff" : "#e2e8f0",
-          }}
-        >
-          {sample}
-        </div>
-      ))}
-    </div>
-  );
+  return specs.map((spec, index) => {
+    const box = boxes.get(`sample-${index}`);
+
+    if (!box) {
+      throw new UnsupportedTaskError("text-layout", `Satori did not lay out sample ${index}`);
+    }
+
+    return {
+      text: spec.text,
+      width: box.width,
+      height: box.height,
+      lines: Math.max(1, Math.round(box.height / spec.lineHeight)),
+      baseline: pathBaseline(paths[index]!) - box.top,
+    };
+  });
 }
 
 function createSatoriRenderer(variant: SatoriVariant): BenchRenderer {
@@ -505,28 +222,22 @@ function createSatoriRenderer(variant: SatoriVariant): BenchRenderer {
         throw new UnsupportedTaskError(task, "Satori outputs SVG directly; WebP requires an additional encoder");
       }
 
-      if (task === "image-stream") {
-        const sourceBuffer = await streamToBuffer(context.createBackgroundStream());
-        const svg = await renderToSvg(context, buildImageElement(context, toDataUri(sourceBuffer), variant));
-        const png = svgToPng(svg);
-        return { kind: "image", format: "png", bytes: png.length, buffer: png };
-      }
-
-      if (task === "image-buffer") {
-        const svg = await renderToSvg(context, buildImageElement(context, context.dataUris.background, variant));
-        const png = svgToPng(svg);
-        return { kind: "image", format: "png", bytes: png.length, buffer: png };
-      }
-
       if (task === "text-layout") {
-        const svg = await renderToSvg(context, buildTextLayoutElement(context, variant));
-        return {
-          kind: "metric",
-          value: svg.length,
-        };
+        const boxes = new Map<string, SatoriNode>();
+        const svg = await renderToSvg(context, buildTextLayoutElement(context, variant), (node) => {
+          if (node.key !== undefined && node.key !== null) {
+            boxes.set(String(node.key), node);
+          }
+        });
+        // Reading the glyph outlines back is the benchmark's work, not satori's.
+        const readStart = performance.now();
+        const samples = readTextLayout(svg, boxes, context);
+        const harnessMs = performance.now() - readStart;
+
+        return { kind: "metric", value: totalTextWidth(samples), textLayout: samples, harnessMs };
       }
 
-      const svg = await renderToSvg(context, buildKitchenSinkElement(context, variant));
+      const svg = await renderToSvg(context, await buildTaskElement(context, task, variant));
 
       if (task === "encode-svg") {
         const svgBuffer = Buffer.from(svg);
@@ -538,7 +249,7 @@ function createSatoriRenderer(variant: SatoriVariant): BenchRenderer {
         };
       }
 
-      const png = svgToPng(svg);
+      const png = svgToPng(svg, context);
 
       return {
         kind: "image",
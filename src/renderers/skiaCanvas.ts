@@ -1,6 +1,9 @@
-import { drawCoverImage, drawKitchenSink, measureTextLayout } from "../canvasScene.js";
+import * as skiaCanvas from "skia-canvas";
+import { applyDevicePixelRatio, drawScene, measureTextLayout } from "../canvasScene.js";
+import { loadTaskScene, resolveSceneImages } from "../scene.js";
+import { totalTextWidth } from "../textLayout.js";
 import type { BenchContext, BenchRenderer } from "../types.js";
-import { UnsupportedTaskError, streamToBuffer } from "../utils.js";
+import { UnsupportedTaskError, physicalSize } from "../utils.js";
 
 interface SkiaCanvasModule {
   createCanvas?: (width: number, height: number) => {
@@ -27,16 +30,10 @@ interface SkiaCanvasModule {
   };
 }
 
-let skiaModulePromise: Promise<SkiaCanvasModule> | null = null;
-let fontsRegistered = false;
-
-function getSkiaModule(): Promise<SkiaCanvasModule> {
-  if (!skiaModulePromise) {
-    skiaModulePromise = import("skia-canvas") as unknown as Promise<SkiaCanvasModule>;
-  }
-
-  return skiaModulePromise;
-}
+// Imported with the module, as the other renderers do, so cold starts count its native load as
+// module load; the API is read through this shape because it moved between skia-canvas versions.
+const skia = skiaCanvas as unknown as SkiaCanvasModule;
+const registeredFonts = new Set<string>();
 
 function resolveCreateCanvas(skia: SkiaCanvasModule): NonNullable<SkiaCanvasModule["createCanvas"]> {
   if (typeof skia.createCanvas === "function") {
@@ -50,23 +47,30 @@ function resolveCreateCanvas(skia: SkiaCanvasModule): NonNullable<SkiaCanvasModu
   throw new Error("skia-canvas did not expose createCanvas or Canvas");
 }
 
+// skia-canvas reads weight and style from each file and groups the files by family.
 function ensureFonts(skia: SkiaCanvasModule, context: BenchContext): void {
-  if (fontsRegistered) {
+  const fontUse = skia.FontLibrary?.use;
+  const pending = context.fonts.filter((font) => !registeredFonts.has(`${font.family}\u0000${font.path}`));
+
+  if (typeof fontUse !== "function" || pending.length === 0) {
     return;
   }
 
-  const fontUse = skia.FontLibrary?.use;
+  for (const family of new Set(pending.map((font) => font.family))) {
+    const paths = pending.filter((font) => font.family === family).map((font) => font.path);
 
-  if (typeof fontUse === "function") {
     try {
-      fontUse.call(skia.FontLibrary, context.fontFamily, [context.fontPaths.regular, context.fontPaths.semibold]);
+      fontUse.call(skia.FontLibrary, family, paths);
     } catch {
-      fontUse.call(skia.FontLibrary, context.fontFamily, context.fontPaths.regular);
-      fontUse.call(skia.FontLibrary, context.fontFamily, context.fontPaths.semibold);
+      for (const path of paths) {
+        fontUse.call(skia.FontLibrary, family, path);
+      }
     }
   }
 
-  fontsRegistered = true;
+  for (const font of pending) {
+    registeredFonts.add(`${font.family}\u0000${font.path}`);
+  }
 }
 
 async function loadSkiaImage(skia: SkiaCanvasModule, source: Buffer): Promise<unknown> {
@@ -90,17 +94,22 @@ async function loadSkiaImage(skia: SkiaCanvasModule, source: Buffer): Promise<un
 
 async function encodeCanvas(
   canvas: {
-    toBuffer?: (format?: string) => Buffer | Uint8Array | Promise<Buffer | Uint8Array>;
+    toBuffer?: (format?: string, options?: { quality?: number }) => Buffer | Uint8Array | Promise<Buffer | Uint8Array>;
     png?: Promise<Buffer | Uint8Array>;
   },
   format: "png" | "webp" | "svg",
+  context: BenchContext,
   task: string,
 ): Promise<Buffer> {
   const encoderInput = format === "png" ? "png" : format;
 
   if (typeof canvas.toBuffer === "function") {
     try {
-      const output = await canvas.toBuffer(encoderInput);
+      // skia-canvas takes quality as 0-1.
+      const output =
+        format === "webp" && context.webpQuality !== null
+          ? await canvas.toBuffer(encoderInput, { quality: context.webpQuality / 100 })
+          : await canvas.toBuffer(encoderInput);
       return Buffer.isBuffer(output) ? output : Buffer.from(output);
     } catch (error) {
       throw new UnsupportedTaskError(task, `failed to encode ${format}: ${(error as Error).message}`);
@@ -117,32 +126,21 @@ async function encodeCanvas(
 
 export const skiaCanvasBenchRenderer: BenchRenderer = {
   name: "skia-canvas",
+  prepare: async (context) => {
+    ensureFonts(skia, context);
+  },
   run: async (context, task) => {
-    const skia = await getSkiaModule();
     ensureFonts(skia, context);
 
     const createCanvas = resolveCreateCanvas(skia);
-    const canvas = createCanvas(context.width, context.height);
-    const ctx = canvas.getContext("2d") as Parameters<typeof drawKitchenSink>[0];
-
-    if (task === "image-buffer") {
-      const image = await loadSkiaImage(skia, context.buffers.background);
-      drawCoverImage(ctx, canvas, image as { width: number; height: number });
-      const png = await encodeCanvas(canvas, "png", task);
-      return { kind: "image", format: "png", bytes: png.length, buffer: png };
-    }
-
-    if (task === "image-stream") {
-      const sourceBuffer = await streamToBuffer(context.createBackgroundStream());
-      const image = await loadSkiaImage(skia, sourceBuffer);
-      drawCoverImage(ctx, canvas, image as { width: number; height: number });
-      const png = await encodeCanvas(canvas, "png", task);
-      return { kind: "image", format: "png", bytes: png.length, buffer: png };
-    }
+    const physical = physicalSize(context);
+    const canvas = createCanvas(physical.width, physical.height);
+    const ctx = canvas.getContext("2d") as Parameters<typeof drawScene>[0];
+    applyDevicePixelRatio(ctx, context);
 
     if (task === "text-layout") {
-      const total = measureTextLayout(ctx, context);
-      return { kind: "metric", value: total };
+      const samples = measureTextLayout(ctx, context);
+      return { kind: "metric", value: totalTextWidth(samples), textLayout: samples };
     }
 
     const format =
@@ -152,24 +150,13 @@ export const skiaCanvasBenchRenderer: BenchRenderer = {
           ? "svg"
           : "png";
 
-    const [background, avatar, badge] = await Promise.all([
-      loadSkiaImage(skia, context.buffers.background),
-      loadSkiaImage(skia, context.buffers.avatar),
-      loadSkiaImage(skia, context.buffers.badge),
-    ]);
-
-    drawKitchenSink(
-      ctx,
-      canvas,
-      {
-        background: background as { width: number; height: number },
-        avatar,
-        badge,
-      },
-      context,
+    const scene = await loadTaskScene(context, task);
+    const images = await resolveSceneImages(scene, context, task, async (source) =>
+      (await loadSkiaImage(skia, source.buffer)) as { width: number; height: number },
     );
+    drawScene(ctx, scene, images, context);
 
-    const output = await encodeCanvas(canvas, format, task);
+    const output = await encodeCanvas(canvas, format, context, task);
     return { kind: "image", format, bytes: output.length, buffer: output };
   },
 };
@@ -2,32 +2,44 @@ import { readFile } from "node:fs/promises";
 import { Renderer as TakumiEngine } from "@takumi-rs/core";
 import { fromJsx } from "@takumi-rs/helpers/jsx";
 import type { ReactElement } from "react";
-import type { BenchContext, BenchRenderer, BenchTaskName } from "../types.js";
-import { UnsupportedTaskError, streamToBuffer, toDataUri } from "../utils.js";
+import { findFont } from "../fontMetrics.js";
+import { type JsxSceneVariant, buildTaskElement } from "../jsxScene.js";
+import { textLayoutSpecs, totalTextWidth } from "../textLayout.js";
+import type { BenchContext, BenchRenderer, BenchTaskName, TextLayoutSample } from "../types.js";
+import { UnsupportedTaskError, fontSetKey, physicalSize, scaled } from "../utils.js";
 
-type TakumiVariant = "style" | "tailwind";
+type TakumiVariant = JsxSceneVariant;
 
-let takumiEnginePromise: Promise<TakumiEngine> | null = null;
+let engineCache: { key: string; engine: Promise<TakumiEngine> } | null = null;
 
 function toArrayBuffer(buffer: Buffer): ArrayBuffer {
   return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
 }
 
-async function getEngine(context: BenchContext): Promise<TakumiEngine> {
-  if (!takumiEnginePromise) {
-    takumiEnginePromise = (async () => {
-      const [regularFont, semiboldFont] = await Promise.all([
-        readFile(context.fontPaths.regular),
-        readFile(context.fontPaths.semibold),
-      ]);
+async function createEngine(context: BenchContext): Promise<TakumiEngine> {
+  const fonts = await Promise.all(
+    context.fonts.map(async (font) => ({
+      name: font.family,
+      data: toArrayBuffer(await readFile(font.path)),
+      weight: font.weight,
+      style: font.style,
+    })),
+  );
+
+  const engine = new TakumiEngine();
+  await engine.loadFonts(fonts);
+  return engine;
+}
 
-      const engine = new TakumiEngine();
-      await engine.loadFonts([toArrayBuffer(regularFont), toArrayBuffer(semiboldFont)]);
-      return engine;
-    })();
+/** One engine per font set; fonts are loaded into it once. */
+function getEngine(context: BenchContext): Promise<TakumiEngine> {
+  const key = fontSetKey(context.fonts);
+
+  if (engineCache?.key !== key) {
+    engineCache = { key, engine: createEngine(context) };
   }
 
-  return takumiEnginePromise;
+  return engineCache.engine;
 }
 
 async function renderElement(
@@ -40,398 +52,44 @@ async function renderElement(
   const node = await fromJsx(element);
 
   try {
+    // Takumi takes the physical size and scales the logical layout by `devicePixelRatio`.
+    const physical = physicalSize(context);
     return await engine.render(node as { type: string }, {
-      width: context.width,
-      height: context.height,
+      width: physical.width,
+      height: physical.height,
       format,
+      devicePixelRatio: context.dpr,
     });
   } catch (error) {
     throw new UnsupportedTaskError(task, (error as Error).message);
   }
 }
 
-function buildImageElement(context: BenchContext, source: string, variant: TakumiVariant): ReactElement {
-  if (variant === "tailwind") {
-    return (
-      <div tw="relative h-full w-full overflow-hidden bg-black">
-        <img
-          src={source}
-          width={context.width}
-          height={context.height}
-          tw="absolute"
-          style={{
-            left: 0,
-            top: 0,
-            width: context.width,
-            height: context.height,
-            objectFit: "cover",
-          }}
-        />
-      </div>
-    );
-  }
-
-  return (
-    <div
-      style={{
-        width: context.width,
-        height: context.height,
-        position: "relative",
-        overflow: "hidden",
-        backgroundColor: "#0f172a",
-      }}
-    >
-      <img
-        src={source}
-        width={context.width}
-        height={context.height}
-        style={{
-          position: "absolute",
-          left: 0,
-          top: 0,
-          width: context.width,
-          height: context.height,
-          objectFit: "cover",
-        }}
-      />
-    </div>
-  );
+interface MeasuredNode {
+  height: number;
+  children?: MeasuredNode[];
+  runs?: Array<{ y: number; width: number; height: number }>;
 }
 
-function buildKitchenSinkElement(context: BenchContext, variant: TakumiVariant): ReactElement {
-  const progressWidth = Math.round((context.width - 84) * 0.67);
-  const overlayGradient = "linear-gradient(135deg, rgba(10, 18, 32, 0.65) 0%, rgba(24, 42, 64, 0.25) 50%, rgba(8, 12, 20, 0.8) 100%)";
+/** Each sample is its own block so its measured node and text runs map back to it one to one. */
+function buildTextLayoutElement(context: BenchContext, variant: TakumiVariant): ReactElement {
+  const px = (value: number) => scaled(context, value);
+  const specs = textLayoutSpecs(context);
 
   if (variant === "tailwind") {
+    // Sizes mirror `gap-2` and `p-10` at 1280×720 and scale with the output.
     return (
-      <div tw="relative h-full w-full overflow-hidden text-white">
-        <img
-          src={context.dataUris.background}
-          width={context.width}
-          height={context.height}
-          tw="absolute"
-          style={{
-            left: 0,
-            top: 0,
-            width: context.width,
-            height: context.height,
-            objectFit: "cover",
-          }}
-        />
-        <div
-          tw="absolute"
-          style={{
-            left: 0,
-            top: 0,
-            width: context.width,
-            height: context.height,
-            backgroundImage: overlayGradient,
-          }}
-        />
-
-        <div
-          tw="absolute overflow-hidden"
-          style={{
-            left: 42,
-            top: 42,
-            width: 220,
-            height: 220,
-            borderRadius: 28,
-          }}
-        >
-          <img
-            src={context.dataUris.avatar}
-            width={220}
-            height={220}
-            tw="absolute"
-            style={{
-              left: 0,
-              top: 0,
-              width: 220,
-              height: 220,
-              objectFit: "cover",
-            }}
-          />
-        </div>
-
-        <div
-          tw="absolute overflow-hidden"
-          style={{
-            left: 288,
-            top: 64,
-            width: 120,
-            height: 120,
-            borderRadius: 24,
-          }}
-        >
-          <img
-            src={context.dataUris.badge}
-            width={120}
-            height={120}
-            tw="absolute"
-            style={{
-              left: 0,
-              top: 0,
-              width: 120,
-              height: 120,
-              objectFit: "cover",
-            }}
-          />
-        </div>
-
-        <div
-          tw="absolute"
-          style={{
-            left: 42,
-            top: 288,
-            width: context.width - 84,
-            height: 54,
-            borderRadius: 27,
-            backgroundColor: "rgba(31, 41, 55, 0.95)",
-          }}
-        />
-
-        <div
-          tw="absolute"
-          style={{
-            left: 42,
-            top: 288,
-            width: progressWidth,
-            height: 54,
-            borderRadius: 27,
-            backgroundColor: "#4f91df",
-          }}
-        />
-
-        <div
-          tw="absolute rounded-full"
-          style={{
-            left: context.width - 102,
-            top: 60,
-            width: 56,
-            height: 56,
-            backgroundColor: "#f59e0b",
-          }}
-        />
-        <div
-          tw="absolute rounded-full"
-          style={{
-            left: context.width - 92,
-            top: 70,
-            width: 36,
-            height: 36,
-            backgroundColor: "#111827",
-          }}
-        />
-
-        <div
-          tw="absolute"
-          style={{
-            left: 438,
-            top: 58,
-            color: "#ffffff",
-            fontFamily: context.fontFamily,
-            fontSize: 64,
-            fontWeight: 700,
-          }}
-        >
-          Image Benchmark Suite
-        </div>
-        <div
-          tw="absolute"
-          style={{
-            left: 438,
-            top: 136,
-            color: "rgba(255, 255, 255, 0.82)",
-            fontFamily: context.fontFamily,
-            fontSize: 30,
-            fontWeight: 400,
-          }}
-        >
-          buffer | stream | kitchen sink | text layout | format compare
-        </div>
-        <div
-          tw="absolute"
-          style={{
-            left: 438,
-            top: 194,
-            color: "#d1e5ff",
-            fontFamily: context.fontFamily,
-            fontSize: 44,
-            fontWeight: 600,
-          }}
-        >
-          PNG / WEBP / SVG
-        </div>
-        <div
-          tw="absolute"
-          style={{
-            left: 42,
-            top: 364,
-            color: "#ffffff",
-            fontFamily: context.fontFamily,
-            fontSize: 28,
-            fontWeight: 400,
-          }}
-        >
-          {`samples: ${context.textSamples.length}`}
-        </div>
-        <div
-          tw="absolute"
-          style={{
-            left: 42,
-            top: 404,
-            color: "#ffffff",
-            fontFamily: context.fontFamily,
-            fontSize: 28,
-            fontWeight: 400,
-          }}
-        >
-          stream source is in-memory (disk I/O excluded)
-        </div>
-      </div>
-    );
-  }
-
-  return (
-    <div
-      style={{
-        width: context.width,
-        height: context.height,
-        position: "relative",
-        overflow: "hidden",
-        backgroundColor: "#000000",
-        color: "#ffffff",
-        fontFamily: context.fontFamily,
-      }}
-    >
-      <img
-        src={context.dataUris.background}
-        width={context.width}
-        height={context.height}
-        style={{
-          position: "absolute",
-          left: 0,
-          top: 0,
-          width: context.width,
-          height: context.height,
-          objectFit: "cover",
-        }}
-      />
-
-      <div
-        style={{
-          position: "absolute",
-          left: 0,
-          top: 0,
-          width: context.width,
-          height: context.height,
-          backgroundImage: overlayGradient,
-        }}
-      />
-
       <div
-        style={{
-          position: "absolute",
-          left: 42,
-          top: 42,
-          width: 220,
-          height: 220,
-          borderRadius: 28,
-          overflow: "hidden",
-        }}
+        tw="flex h-full w-full flex-col items-start bg-slate-900 text-white"
+        style={{ gap: px(8), padding: px(40), fontFamily: context.fontFamily }}
       >
-        <img src={context.dataUris.avatar} width={220} height={220} style={{ width: 220, height: 220, objectFit: "cover" }} />
-      </div>
-
-      <div
-        style={{
-          position: "absolute",
-          left: 288,
-          top: 64,
-          width: 120,
-          height: 120,
-          borderRadius: 24,
-          overflow: "hidden",
-        }}
-      >
-        <img src={context.dataUris.badge} width={120} height={120} style={{ width: 120, height: 120, objectFit: "cover" }} />
-      </div>
-
-      <div
-        style={{
-          position: "absolute",
-          left: 42,
-          top: 288,
-          width: context.width - 84,
-          height: 54,
-          borderRadius: 27,
-          backgroundColor: "rgba(31, 41, 55, 0.95)",
-        }}
-      />
-
-      <div
-        style={{
-          position: "absolute",
-          left: 42,
-          top: 288,
-          width: progressWidth,
-          height: 54,
-          borderRadius: 27,
-          backgroundColor: "#4f91df",
-        }}
-      />
-
-      <div
-        style={{
-          position: "absolute",
-          left: context.width - 102,
-          top: 60,
-          width: 56,
-          height: 56,
-          borderRadius: 28,
-          backgroundColor: "#f59e0b",
-        }}
-      />
-
-      <div
-        style={{
-          position: "absolute",
-          left: context.width - 92,
-          top: 70,
-          width: 36,
-          height: 36,
-          borderRadius: 18,
-          backgroundColor: "#111827",
-        }}
-      />
-
-      <div style={{ position: "absolute", left: 438, top: 58, color: "#ffffff", fontSize: 64, fontWeight: 700 }}>
-        Image Benchmark Suite
-      </div>
-      <div style={{ position: "absolute", left: 438, top: 136, color: "rgba(255, 255, 255, 0.82)", fontSize: 30, fontWeight: 400 }}>
-        buffer | stream | kitchen sink | text layout | format compare
-      </div>
-      <div style={{ position: "absolute", left: 438, top: 194, color: "#d1e5ff", fontSize: 44, fontWeight: 600 }}>
-        PNG / WEBP / SVG
-      </div>
-      <div style={{ position: "absolute", left: 42, top: 364, color: "#ffffff", fontSize: 28, fontWeight: 400 }}>
-        {`samples: ${context.textSamples.length}`}
-      </div>
-      <div style={{ position: "absolute", left: 42, top: 404, color: "#ffffff", fontSize: 28, fontWeight: 400 }}>
-        stream source is in-memory (disk I/O excluded)
-      </div>
-    </div>
-  );
-}
-
-function buildTextLayoutElement(context: BenchContext, variant: TakumiVariant): ReactElement {
-  if (variant === "tailwind") {
-    return (
-      <div tw="flex h-full w-full flex-col gap-2 bg-slate-900 p-10 text-white">
-        {context.textSamples.map((sample, index) => (
-          <div key={`${index}-${sample}`} tw={index % 2 === 0 ? "text-4xl font-semibold" : "text-2xl font-normal text-slate-200"}>
-            {sample}
+        {specs.map((spec, index) => (
+          <div
+            key={`${index}-${spec.text}`}
+            tw={`block whitespace-pre ${spec.fontWeight === 600 ? "font-semibold" : "font-normal text-slate-200"}`}
+            style={{ fontSize: spec.fontSize, lineHeight: `${spec.lineHeight}px` }}
+          >
+            <span>{spec.text}</span>
           </div>
         ))}
       </div>
@@ -445,45 +103,58 @@ function buildTextLayoutElement(context: BenchContext, variant: TakumiVariant):
         height: context.height,
         display: "flex",
         flexDirection: "column",
-        gap: 8,
+        alignItems: "flex-start",
+        gap: px(8),
         backgroundColor: "#0f172a",
         color: "#ffffff",
-        padding: 40,
+        padding: px(40),
         fontFamily: context.fontFamily,
       }}
     >
-      {context.textSamples.map((sample, index) => (
+      {specs.map((spec, index) => (
         <div
-          key={`${index}-${sample}`}
+          key={`${index}-${spec.text}`}
           style={{
-            fontSize: index % 2 === 0 ? 40 : 24,
-            fontWeight: index % 2 === 0 ? 600 : 400,
-            color: index % 2 === 0 ? "#ffffff" : "#e2e8f0",
+            display: "block",
+            whiteSpace: "pre",
+            fontSize: spec.fontSize,
+            fontWeight: spec.fontWeight,
+            lineHeight: `${spec.lineHeight}px`,
+            color: spec.color,
           }}
         >
-          {sample}
+          <span>{spec.text}</span>
         </div>
       ))}
     </div>
   );
 }
 
-function sumRunWidths(node: {
-  width?: number;
-  runs?: Array<{ width: number }>;
-  children?: Array<{ width?: number; runs?: Array<{ width: number }>; children?: unknown[] }>;
-}): number {
-  let total = typeof node.width === "number" ? node.width : 0;
-
-  for (const run of node.runs ?? []) {
-    total += run.width;
-  }
-
-  for (const child of node.children ?? []) {
-    total += sumRunWidths(child as Parameters<typeof sumRunWidths>[0]);
-  }
-
-  return total;
+/**
+ * Reads the samples back from the measured tree. A run's height is the font's content area
+ * (ascender + descender), so the baseline sits at the ascender's share of it; the context read
+ * the font metrics up front, so nothing here touches the disk.
+ */
+function readTextLayout(measured: MeasuredNode, context: BenchContext): TextLayoutSample[] {
+  return textLayoutSpecs(context).map((spec, index) => {
+    const node = measured.children?.[index];
+    const runs = node?.runs ?? [];
+
+    if (!node || runs.length === 0) {
+      throw new UnsupportedTaskError("text-layout", `Takumi returned no text runs for sample ${index}`);
+    }
+
+    const font = context.fontMetrics[findFont(context.fonts, context.fontFamily, spec.fontWeight).path]!;
+    const first = runs[0]!;
+
+    return {
+      text: spec.text,
+      width: Math.max(...runs.map((run) => run.width)),
+      height: node.height,
+      lines: new Set(runs.map((run) => run.y)).size,
+      baseline: first.y + (first.height * font.ascender) / (font.ascender + font.descender),
+    };
+  });
 }
 
 function createTakumiRenderer(variant: TakumiVariant): BenchRenderer {
@@ -510,28 +181,13 @@ function createTakumiRenderer(variant: TakumiVariant): BenchRenderer {
           height: context.height,
         });
 
-        return {
-          kind: "metric",
-          value: sumRunWidths(measured as Parameters<typeof sumRunWidths>[0]),
-        };
-      }
-
-      if (task === "image-stream") {
-        const sourceBuffer = await streamToBuffer(context.createBackgroundStream());
-        const element = buildImageElement(context, toDataUri(sourceBuffer), variant);
-        const png = await renderElement(engine, element, context, task, "png");
-        return { kind: "image", format: "png", bytes: png.length, buffer: png };
-      }
+        const samples = readTextLayout(measured as MeasuredNode, context);
 
-      if (task === "image-buffer") {
-        const element = buildImageElement(context, context.dataUris.background, variant);
-        const png = await renderElement(engine, element, context, task, "png");
-        return { kind: "image", format: "png", bytes: png.length, buffer: png };
+        return { kind: "metric", value: totalTextWidth(samples), textLayout: samples };
       }
 
       const format = task === "encode-webp" ? "webp" : "png";
-      const element = buildKitchenSinkElement(context, variant);
-      const output = await renderElement(engine, element, context, task, format);
+      const output = await renderElement(engine, await buildTaskElement(context, task, variant), context, task, format);
 
       return {
         kind: "image",
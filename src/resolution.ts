@@ -0,0 +1,126 @@
+import { linearRegression } from "./soak.js";
+import type { BenchCaseStats, BenchTaskName, OutputSize } from "./types.js";
+import { formatSize, round } from "./utils.js";
+
+export interface ResolutionScaling {
+  renderer: string;
+  task: BenchTaskName;
+  /** Slope of log(avg latency) over log(pixels): 1 means cost grows linearly with pixel count. */
+  latencyExponent: number;
+  /** Same fit for output bytes; null for metric-only tasks. */
+  outputExponent: number | null;
+}
+
+/** Physical pixel count, so HiDPI renders count the pixels they actually produce. */
+function pixels(size: OutputSize): number {
+  return size.width * size.height * size.dpr * size.dpr;
+}
+
+function logLogSlope(points: Array<{ pixels: number; value: number }>): number | null {
+  const usable = points.filter((point) => point.value > 0);
+
+  if (usable.length < 2) {
+    return null;
+  }
+
+  return round(
+    linearRegression(
+      usable.map((point) => Math.log(point.pixels)),
+      usable.map((point) => Math.log(point.value)),
+    ).slope,
+    3,
+  );
+}
+
+/**
+ * Fits how latency and output size grow with pixel count for every renderer/task that ran
+ * at two or more sizes.
+ */
+export function summarizeResolutionScaling(stats: BenchCaseStats[]): ResolutionScaling[] {
+  const groups = new Map<string, BenchCaseStats[]>();
+
+  for (const entry of stats) {
+    const key = `${entry.renderer}\u0000${entry.task}`;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+
+  return [...groups.values()].flatMap((rows) => {
+    const latencyExponent = logLogSlope(rows.map((row) => ({ pixels: pixels(row), value: row.avgMs })));
+
+    if (latencyExponent === null) {
+      return [];
+    }
+
+    return [
+      {
+        renderer: rows[0]!.renderer,
+        task: rows[0]!.task,
+        latencyExponent,
+        outputExponent:
+          rows[0]!.outputKind === "image"
+            ? logLogSlope(rows.map((row) => ({ pixels: pixels(row), value: row.outputAverage })))
+            : null,
+      },
+    ];
+  });
+}
+
+export function buildResolutionMarkdown(
+  tasks: BenchTaskName[],
+  sizes: OutputSize[],
+  stats: BenchCaseStats[],
+): string[] {
+  const lines: string[] = [];
+  const scaling = summarizeResolutionScaling(stats);
+
+  lines.push("## Resolution Sweep");
+  lines.push("");
+  lines.push(`- Sizes: ${sizes.map((size) => `${formatSize(size)} (${round(pixels(size) / 1e6, 2)} MP)`).join(", ")}`);
+  lines.push(
+    "- Scenes are laid out for 1280×720 and scaled uniformly to fit each size; `@Nx` sizes keep that logical layout and render N times the pixels per axis. Megapixels count physical pixels. Exponents are log-log slopes against pixel count: 1 means linear in pixels, 0 means size-independent.",
+  );
+  lines.push("");
+
+  for (const task of tasks) {
+    const rows = stats
+      .filter((entry) => entry.task === task)
+      .sort((left, right) => left.renderer.localeCompare(right.renderer) || pixels(left) - pixels(right));
+
+    if (rows.length === 0) {
+      continue;
+    }
+
+    lines.push(`### ${task}: latency, size and memory by pixel count`);
+    lines.push("");
+    lines.push("| Renderer | Size | Megapixels | Avg (ms) | ms / MP | Output | Output bytes / px | RSS peak Δ (MB) | Heap peak Δ (MB) |");
+    lines.push("|---|---|---:|---:|---:|---:|---:|---:|---:|");
+
+    for (const row of rows) {
+      const megapixels = pixels(row) / 1e6;
+      const output =
+        row.outputKind === "image"
+          ? `${round(row.outputAverage / 1024, 2)} KB | ${(row.outputAverage / pixels(row)).toFixed(3)}`
+          : `${round(row.outputAverage, 2)} | -`;
+      lines.push(
+        `| ${row.renderer} | ${formatSize(row)} | ${megapixels.toFixed(2)} | ${row.avgMs.toFixed(3)} | ${(row.avgMs / megapixels).toFixed(3)} | ${output} | ${row.rssPeakDeltaMb.toFixed(3)} | ${row.heapPeakDeltaMb.toFixed(3)} |`,
+      );
+    }
+
+    lines.push("");
+
+    const fits = scaling.filter((entry) => entry.task === task);
+
+    if (fits.length > 0) {
+      lines.push("| Renderer | Latency exponent | Output exponent |");
+      lines.push("|---|---:|---:|");
+
+      for (const fit of fits) {
+        lines.push(`| ${fit.renderer} | ${fit.latencyExponent.toFixed(3)} | ${fit.outputExponent?.toFixed(3) ?? "-"} |`);
+      }
+
+      lines.push("");
+    }
+  }
+
+  return lines;
+}
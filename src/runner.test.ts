@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createStopRule } from "./runner.js";
+import type { BenchCaseStats, SamplingOptions } from "./types.js";
+
+const fixed: SamplingOptions = {
+  iterations: 12,
+  warmup: 0,
+  maxCv: 0.1,
+  targetCi: null,
+  maxTimeMs: null,
+  concurrency: null,
+  soak: null,
+  memorySampleIntervalMs: 0,
+  saveImages: false,
+};
+
+/** Feeds `next()` samples until the rule stops, or gives up after `limit` samples. */
+function sampleUntilStop(options: SamplingOptions, next: (index: number) => number, limit = 10_000) {
+  const shouldStop = createStopRule(options, performance.now());
+  const times: number[] = [];
+  let reason: BenchCaseStats["stopReason"] | null = null;
+
+  while (reason === null && times.length < limit) {
+    times.push(next(times.length));
+    reason = shouldStop(times);
+  }
+
+  return { reason, samples: times.length };
+}
+
+describe("createStopRule", () => {
+  it("runs exactly the requested iterations in fixed mode", () => {
+    assert.deepEqual(sampleUntilStop(fixed, () => 10), { reason: "fixed", samples: 12 });
+  });
+
+  it("keeps checking the CI target past 200 samples", () => {
+    // ±1 ms around 10 ms needs ~270 samples for a 95% CI within ±1.2% of the mean.
+    const { reason, samples } = sampleUntilStop({ ...fixed, targetCi: 0.012, maxTimeMs: 3_600_000 }, (index) =>
+      index % 2 === 0 ? 9 : 11,
+    );
+
+    assert.equal(reason, "target-ci");
+    assert.ok(samples > 200 && samples < 400, `stopped after ${samples} samples`);
+  });
+
+  it("treats the iterations as a minimum in adaptive mode", () => {
+    const options = { ...fixed, iterations: 30, targetCi: 0.5, maxTimeMs: 3_600_000 };
+    assert.deepEqual(sampleUntilStop(options, () => 10), { reason: "target-ci", samples: 30 });
+  });
+
+  it("stops at the time budget when the target is out of reach", () => {
+    const options = { ...fixed, iterations: 2, targetCi: 0, maxTimeMs: 0.001 };
+    assert.equal(sampleUntilStop(options, (index) => index).reason, "time-budget");
+  });
+});
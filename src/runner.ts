@@ -0,0 +1,436 @@
+import { monitorEventLoopDelay } from "node:perf_hooks";
+import process from "node:process";
+import { setImmediate } from "node:timers/promises";
+import type {
+  BenchCaseOutcome,
+  BenchCaseResult,
+  BenchCaseSample,
+  BenchCaseStats,
+  BenchContext,
+  BenchRenderer,
+  BenchTaskName,
+  RendererPrepareStats,
+  SamplingOptions,
+  TaskOutput,
+  TextLayoutSample,
+  ThroughputStats,
+} from "./types.js";
+import { type GcSummary, startGcTracker } from "./gc.js";
+import { type MemoryPeaks, startMemorySampler } from "./memorySampler.js";
+import { InvalidOutputError, validateImageOutput } from "./outputValidation.js";
+import { createMemoryRecorder, shouldStopSoak, summarizeSoak } from "./soak.js";
+import { workloadVersion } from "./tasks.js";
+import {
+  UnsupportedTaskError,
+  bootstrapMeanCi,
+  coefficientOfVariation,
+  formatMb,
+  mean,
+  median,
+  medianAbsoluteDeviation,
+  percentile,
+  round,
+  standardDeviation,
+} from "./utils.js";
+
+const MAX_ADAPTIVE_ITERATIONS = 100_000;
+const EVENT_LOOP_RESOLUTION_MS = 10;
+
+export function isAdaptive(options: SamplingOptions): boolean {
+  return options.maxTimeMs !== null;
+}
+
+function relativeCiHalfWidth(times: number[]): number {
+  const average = mean(times);
+
+  if (average === 0) {
+    return 0;
+  }
+
+  const ci = bootstrapMeanCi(times);
+  return (ci.high - ci.low) / 2 / average;
+}
+
+export async function prepareRenderer(renderer: BenchRenderer, context: BenchContext): Promise<RendererPrepareStats> {
+  const start = performance.now();
+  const details = await renderer.prepare?.(context);
+
+  return {
+    renderer: renderer.name,
+    prepareMs: round(performance.now() - start),
+    ...(details ? { workerPrepareMs: details.workerPrepareMs.map((value) => round(value)) } : {}),
+  };
+}
+
+/**
+ * Decides after each measured iteration whether another one is needed. Fixed mode runs exactly
+ * `iterations`; adaptive mode treats `iterations` as a minimum and then samples until the CI
+ * target is met or the per-case budget runs out. The CI is only re-estimated after every ~10%
+ * more samples because each bootstrap is O(resamples * n). Soak mode ignores both and runs
+ * for the requested number of renders or duration.
+ */
+export function createStopRule(
+  options: SamplingOptions,
+  startedAt: number,
+): (times: number[]) => BenchCaseStats["stopReason"] | null {
+  let nextCheckAt = options.iterations;
+
+  return (times) => {
+    if (options.soak) {
+      return shouldStopSoak(options.soak, times.length, performance.now() - startedAt) ? "soak" : null;
+    }
+
+    if (!isAdaptive(options)) {
+      return times.length >= options.iterations ? "fixed" : null;
+    }
+
+    if (times.length < options.iterations) {
+      return null;
+    }
+
+    if (times.length >= MAX_ADAPTIVE_ITERATIONS) {
+      return "max-iterations";
+    }
+
+    if (performance.now() - startedAt >= options.maxTimeMs!) {
+      return "time-budget";
+    }
+
+    if (options.targetCi === null || times.length < nextCheckAt) {
+      return null;
+    }
+
+    nextCheckAt = times.length + Math.max(1, Math.ceil(times.length * 0.1));
+    return relativeCiHalfWidth(times) <= options.targetCi ? "target-ci" : null;
+  };
+}
+
+/**
+ * `monitorEventLoopDelay` reports nanoseconds between timer firings, so the sampling
+ * interval itself is subtracted to leave only the time the loop was blocked. An empty
+ * histogram yields NaN for some accessors.
+ */
+function blockedMs(nanoseconds: number): number {
+  return Number.isFinite(nanoseconds) ? Math.max(0, nanoseconds / 1e6 - EVENT_LOOP_RESOLUTION_MS) : 0;
+}
+
+function outputValueAsNumber(output: TaskOutput): number {
+  return output.kind === "image" ? output.bytes : output.value;
+}
+
+/** Validates an image output; returns what it was validated as, or null for metrics. */
+function checkOutput(task: BenchTaskName, output: TaskOutput, context: BenchContext): string | null {
+  if (output.kind !== "image") {
+    return null;
+  }
+
+  const validation = validateImageOutput(output, context);
+
+  if (!validation.valid) {
+    throw new InvalidOutputError(task, validation.detail);
+  }
+
+  return validation.detail;
+}
+
+export async function runCase(
+  task: BenchTaskName,
+  renderer: BenchRenderer,
+  options: SamplingOptions,
+  context: BenchContext,
+): Promise<BenchCaseResult> {
+  for (let iteration = 0; iteration < options.warmup; iteration += 1) {
+    checkOutput(task, await renderer.run(context, task), context);
+  }
+
+  globalThis.gc?.();
+
+  // Started before the baseline so the sampler worker's own footprint is not counted.
+  const memorySampler = await startMemorySampler(options.memorySampleIntervalMs);
+  const baseline = process.memoryUsage();
+  memorySampler.record();
+
+  const times: number[] = [];
+  const outputs: number[] = [];
+  const overheads: number[] = [];
+
+  let outputKind: TaskOutput["kind"] = "metric";
+  let outputUnit: "bytes" | "value" = "value";
+  let sample: BenchCaseSample | undefined;
+  let textLayout: TextLayoutSample[] | undefined;
+
+  // Synchronous draw/encode work shows up as event-loop delay; CPU time above wall time
+  // means work ran on other threads (libuv pool or native encoder threads).
+  const eventLoopDelay = monitorEventLoopDelay({ resolution: EVENT_LOOP_RESOLUTION_MS });
+  eventLoopDelay.enable();
+  const cpuBaseline = process.cpuUsage();
+
+  const memoryRecorder = options.soak ? createMemoryRecorder(options.soak.sampleIntervalMs) : null;
+  memoryRecorder?.maybeSample(0, true);
+
+  const gcTracker = startGcTracker();
+  const samplingStartedAt = performance.now();
+  const nextStopReason = createStopRule(options, samplingStartedAt);
+  let stopReason: BenchCaseStats["stopReason"] | null = null;
+  let outputValidation: string | null = null;
+  let invalidOutput: unknown;
+
+  let samplingWallMs: number;
+  let gcSummary: GcSummary;
+  let cpu: NodeJS.CpuUsage;
+  let memoryPeaks: MemoryPeaks;
+
+  try {
+    while (stopReason === null) {
+      const start = performance.now();
+      const output = await renderer.run(context, task);
+      const end = performance.now();
+
+      // Every output is checked, outside the timed span; the samplers are stopped before a
+      // failure propagates.
+      try {
+        outputValidation = checkOutput(task, output, context);
+      } catch (error) {
+        invalidOutput = error;
+        break;
+      }
+
+      outputKind = output.kind;
+      outputUnit = output.kind === "image" ? "bytes" : "value";
+
+      if (options.saveImages && !sample && output.kind === "image") {
+        sample = {
+          format: output.format,
+          buffer: output.buffer,
+        };
+      }
+
+      if (!textLayout && output.kind === "metric") {
+        textLayout = output.textLayout;
+      }
+
+      times.push(end - start - (output.harnessMs ?? 0));
+      outputs.push(outputValueAsNumber(output));
+
+      if (output.overheadMs !== undefined) {
+        overheads.push(output.overheadMs);
+      }
+
+      memorySampler.record();
+      memoryRecorder?.maybeSample(times.length);
+
+      // Let the delay monitor's timer fire so fully synchronous iterations are recorded.
+      await setImmediate();
+
+      stopReason = nextStopReason(times);
+    }
+  } finally {
+    // Stopped however sampling ends, so a render that throws leaves no sampler running.
+    samplingWallMs = performance.now() - samplingStartedAt;
+    gcSummary = await gcTracker.stop();
+    memoryRecorder?.maybeSample(times.length, true);
+    cpu = process.cpuUsage(cpuBaseline);
+    eventLoopDelay.disable();
+    memoryPeaks = await memorySampler.stop();
+  }
+
+  // Sampling only ends without a stop reason when an output failed validation.
+  if (stopReason === null) {
+    throw invalidOutput;
+  }
+
+  globalThis.gc?.();
+  const ending = process.memoryUsage();
+  const ci = bootstrapMeanCi(times);
+  const cv = coefficientOfVariation(times);
+
+  return {
+    stats: {
+      renderer: renderer.name,
+      task,
+      workloadVersion: workloadVersion(task),
+      width: context.width,
+      height: context.height,
+      dpr: context.dpr,
+      iterations: times.length,
+      warmup: options.warmup,
+      stopReason,
+      avgMs: round(mean(times)),
+      medianMs: round(median(times)),
+      p95Ms: round(percentile(times, 0.95)),
+      p99Ms: round(percentile(times, 0.99)),
+      minMs: round(Math.min(...times)),
+      maxMs: round(Math.max(...times)),
+      stdDevMs: round(standardDeviation(times)),
+      madMs: round(medianAbsoluteDeviation(times)),
+      cv: round(cv, 4),
+      ci95LowMs: round(ci.low),
+      ci95HighMs: round(ci.high),
+      highVariance: cv > options.maxCv,
+      rssPeakDeltaMb: round(formatMb(memoryPeaks.rss - baseline.rss)),
+      heapPeakDeltaMb: round(formatMb(memoryPeaks.heapUsed - baseline.heapUsed)),
+      heapEndDeltaMb: round(formatMb(ending.heapUsed - baseline.heapUsed)),
+      externalPeakDeltaMb: round(formatMb(memoryPeaks.external - baseline.external)),
+      arrayBuffersPeakDeltaMb: round(formatMb(memoryPeaks.arrayBuffers - baseline.arrayBuffers)),
+      memorySamples: memoryPeaks.samples,
+      gcMinorCount: gcSummary.minorCount,
+      gcMajorCount: gcSummary.majorCount,
+      gcPauseMs: round(gcSummary.pauseMs),
+      gcPauseShare: round(gcSummary.pauseMs / times.reduce((total, value) => total + value, 0), 4),
+      allocatedBytesPerRender: Math.round(gcSummary.allocatedBytes / times.length),
+      eventLoopDelayP50Ms: round(blockedMs(eventLoopDelay.percentile(50))),
+      eventLoopDelayP99Ms: round(blockedMs(eventLoopDelay.percentile(99))),
+      eventLoopDelayMaxMs: round(blockedMs(eventLoopDelay.max)),
+      cpuUserMs: round(cpu.user / 1_000 / times.length),
+      cpuSystemMs: round(cpu.system / 1_000 / times.length),
+      cpuUtilization: round((cpu.user + cpu.system) / 1_000 / samplingWallMs, 3),
+      ...(overheads.length > 0 ? { dispatchOverheadMs: round(mean(overheads)) } : {}),
+      outputKind,
+      outputAverage: round(mean(outputs)),
+      outputUnit,
+      outputValidation,
+    },
+    sample,
+    ...(textLayout ? { textLayout } : {}),
+    ...(memoryRecorder && options.soak ? { soak: summarizeSoak(memoryRecorder.samples, options.soak) } : {}),
+  };
+}
+
+async function runConcurrently(
+  concurrency: number,
+  operationsPerSlot: number,
+  operation: () => Promise<void>,
+): Promise<void> {
+  await Promise.all(
+    Array.from({ length: concurrency }, async () => {
+      for (let index = 0; index < operationsPerSlot; index += 1) {
+        await operation();
+      }
+    }),
+  );
+}
+
+/**
+ * Keeps `concurrency` renders in flight, each slot running `iterations` renders back to
+ * back, and measures aggregate throughput plus per-render latency under that load.
+ */
+export async function runThroughput(
+  task: BenchTaskName,
+  renderer: BenchRenderer,
+  options: SamplingOptions,
+  context: BenchContext,
+  concurrency: number,
+): Promise<Omit<ThroughputStats, "scalingEfficiency">> {
+  await runConcurrently(concurrency, options.warmup, async () => {
+    await renderer.run(context, task);
+  });
+
+  globalThis.gc?.();
+
+  const latencies: number[] = [];
+  const start = performance.now();
+
+  await runConcurrently(concurrency, options.iterations, async () => {
+    const operationStart = performance.now();
+    await renderer.run(context, task);
+    latencies.push(performance.now() - operationStart);
+  });
+
+  const elapsedMs = performance.now() - start;
+
+  return {
+    renderer: renderer.name,
+    task,
+    width: context.width,
+    height: context.height,
+    dpr: context.dpr,
+    concurrency,
+    operations: latencies.length,
+    elapsedMs: round(elapsedMs),
+    opsPerSec: round((latencies.length / elapsedMs) * 1_000, 2),
+    avgMs: round(mean(latencies)),
+    p50Ms: round(percentile(latencies, 0.5)),
+    p95Ms: round(percentile(latencies, 0.95)),
+    p99Ms: round(percentile(latencies, 0.99)),
+    maxMs: round(Math.max(...latencies)),
+  };
+}
+
+/**
+ * Runs the throughput sweep for one case. Concurrency 1 always runs first because scaling
+ * efficiency is defined as (ops/sec at N / ops/sec at 1) / N.
+ */
+export async function runThroughputSweep(
+  task: BenchTaskName,
+  renderer: BenchRenderer,
+  options: SamplingOptions,
+  context: BenchContext,
+  levels: number[],
+): Promise<ThroughputStats[]> {
+  const sweep = [...new Set([1, ...levels])].sort((left, right) => left - right);
+  const results: ThroughputStats[] = [];
+  let serialOpsPerSec = 0;
+
+  for (const concurrency of sweep) {
+    const result = await runThroughput(task, renderer, options, context, concurrency);
+
+    if (concurrency === 1) {
+      serialOpsPerSec = result.opsPerSec;
+    }
+
+    results.push({
+      ...result,
+      scalingEfficiency: serialOpsPerSec === 0 ? 0 : round(result.opsPerSec / serialOpsPerSec / concurrency, 3),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Runs one case (and its throughput sweep when enabled) and folds `UnsupportedTaskError` into a skip record and
+ * `InvalidOutputError` into a failure record; any other error propagates and aborts the run.
+ */
+export async function runCaseOutcome(
+  task: BenchTaskName,
+  renderer: BenchRenderer,
+  options: SamplingOptions,
+  context: BenchContext,
+): Promise<BenchCaseOutcome> {
+  try {
+    const result = await runCase(task, renderer, options, context);
+
+    if (options.concurrency) {
+      result.throughput = await runThroughputSweep(task, renderer, options, context, options.concurrency);
+    }
+
+    return { kind: "result", result };
+  } catch (error) {
+    if (error instanceof UnsupportedTaskError) {
+      return {
+        kind: "skipped",
+        skip: {
+          renderer: renderer.name,
+          task,
+          reason: error.message,
+        },
+      };
+    }
+
+    if (error instanceof InvalidOutputError) {
+      return {
+        kind: "failed",
+        failure: {
+          renderer: renderer.name,
+          task,
+          width: context.width,
+          height: context.height,
+          dpr: context.dpr,
+          reason: error.detail,
+        },
+      };
+    }
+
+    throw error;
+  }
+}
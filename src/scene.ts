@@ -0,0 +1,390 @@
+import { complexityColor, complexityElementKind, complexityGrid, complexityOf } from "./complexity.js";
+import { findFont } from "./fontMetrics.js";
+import type { BenchContext, BenchTaskName } from "./types.js";
+import { findUserScene } from "./userScene.js";
+import { UnsupportedTaskError, scaled, streamToBuffer } from "./utils.js";
+
+/**
+ * Image a scene node references: a fixture (`background`, `avatar`, `badge`) or a key of the
+ * scene's own `images`. Renderers resolve it to their own image type.
+ */
+export type SceneImageKey = string;
+
+/** Encoded image plus its data URI, which is null when the bytes are fresh for this render. */
+export interface SceneImageSource {
+  buffer: Buffer;
+  dataUri: string | null;
+}
+
+/**
+ * CSS weight (1-1000). Use weights backed by a loaded font file (`--font`) so no renderer has
+ * to synthesize bold; the bundled Inter set has 400 and 600.
+ */
+export type SceneFontWeight = number;
+
+interface SceneBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Image scaled to cover its box and cropped to it, like CSS `object-fit: cover`. */
+export interface SceneImageNode extends SceneBox {
+  type: "image";
+  image: SceneImageKey;
+}
+
+export interface SceneRectNode extends SceneBox {
+  type: "rect";
+  fill: string;
+}
+
+export interface SceneRoundedRectNode extends SceneBox {
+  type: "roundedRect";
+  radius: number;
+  fill: string;
+}
+
+export interface SceneCircleNode {
+  type: "circle";
+  cx: number;
+  cy: number;
+  radius: number;
+  fill: string;
+}
+
+export interface SceneGradientStop {
+  offset: number;
+  color: string;
+}
+
+/** Linear gradient running from the box's top-left to its bottom-right corner. */
+export interface SceneGradientNode extends SceneBox {
+  type: "gradient";
+  stops: SceneGradientStop[];
+}
+
+/** Single line of text; `y` is the top of its capitals, one cap height above the baseline (`sceneTextBaseline`). */
+export interface SceneTextNode {
+  type: "text";
+  x: number;
+  y: number;
+  text: string;
+  fontSize: number;
+  fontWeight: SceneFontWeight;
+  fontStyle?: "normal" | "italic";
+  /** Overrides the benchmark font family for this node. */
+  fontFamily?: string;
+  color: string;
+}
+
+/** Clips its children to a (rounded) box. Children keep scene coordinates. */
+export interface SceneClipNode extends SceneBox {
+  type: "clip";
+  radius: number;
+  children: SceneNode[];
+}
+
+export type SceneNode =
+  | SceneImageNode
+  | SceneRectNode
+  | SceneRoundedRectNode
+  | SceneCircleNode
+  | SceneGradientNode
+  | SceneTextNode
+  | SceneClipNode;
+
+/**
+ * Renderer-independent description of one frame in logical pixels. Canvas renderers draw it
+ * with `drawScene` and JSX renderers compile it with `buildSceneElement`, so every renderer
+ * draws the same nodes.
+ */
+export interface Scene {
+  width: number;
+  height: number;
+  background: string;
+  nodes: SceneNode[];
+  /** Images beyond the fixtures, e.g. from a user scene file; they shadow fixtures of the same key. */
+  images?: Record<SceneImageKey, SceneImageSource>;
+}
+
+export type SceneImages<T> = Partial<Record<SceneImageKey, T>>;
+
+/**
+ * The font a text node draws with, scaled to its size: ascender, descender and cap height in
+ * logical pixels, from the font file rather than any engine's idea of them.
+ */
+export function sceneTextMetrics(node: SceneTextNode, context: BenchContext) {
+  const font = findFont(context.fonts, node.fontFamily ?? context.fontFamily, node.fontWeight);
+  const metrics = context.fontMetrics[font.path];
+
+  if (!metrics) {
+    throw new Error(`No font metrics were read for ${font.path}`);
+  }
+
+  const px = (units: number) => (node.fontSize * units) / metrics.unitsPerEm;
+  return { ascent: px(metrics.ascender), descent: px(metrics.descender), capHeight: px(metrics.capHeight) };
+}
+
+/** Alphabetic baseline of a text node; both scene compilers place text from it. */
+export function sceneTextBaseline(node: SceneTextNode, context: BenchContext): number {
+  return node.y + sceneTextMetrics(node, context).capHeight;
+}
+
+function imageScene(context: BenchContext): Scene {
+  return {
+    width: context.width,
+    height: context.height,
+    background: "#0f172a",
+    nodes: [{ type: "image", image: "background", x: 0, y: 0, width: context.width, height: context.height }],
+  };
+}
+
+function kitchenSinkScene(context: BenchContext): Scene {
+  const px = (value: number) => scaled(context, value);
+  const barWidth = context.width - px(84);
+
+  return {
+    width: context.width,
+    height: context.height,
+    background: "#000000",
+    nodes: [
+      { type: "image", image: "background", x: 0, y: 0, width: context.width, height: context.height },
+      {
+        type: "gradient",
+        x: 0,
+        y: 0,
+        width: context.width,
+        height: context.height,
+        stops: [
+          { offset: 0, color: "rgba(10, 18, 32, 0.65)" },
+          { offset: 0.5, color: "rgba(24, 42, 64, 0.25)" },
+          { offset: 1, color: "rgba(8, 12, 20, 0.8)" },
+        ],
+      },
+      {
+        type: "clip",
+        x: px(42),
+        y: px(42),
+        width: px(220),
+        height: px(220),
+        radius: px(28),
+        children: [{ type: "image", image: "avatar", x: px(42), y: px(42), width: px(220), height: px(220) }],
+      },
+      {
+        type: "clip",
+        x: px(288),
+        y: px(64),
+        width: px(120),
+        height: px(120),
+        radius: px(24),
+        children: [{ type: "image", image: "badge", x: px(288), y: px(64), width: px(120), height: px(120) }],
+      },
+      {
+        type: "roundedRect",
+        x: px(42),
+        y: px(288),
+        width: barWidth,
+        height: px(54),
+        radius: px(27),
+        fill: "rgba(31, 41, 55, 0.95)",
+      },
+      {
+        type: "roundedRect",
+        x: px(42),
+        y: px(288),
+        width: Math.round(barWidth * 0.67),
+        height: px(54),
+        radius: px(27),
+        fill: "#4f91df",
+      },
+      { type: "circle", cx: context.width - px(74), cy: px(88), radius: px(28), fill: "#f59e0b" },
+      { type: "circle", cx: context.width - px(74), cy: px(88), radius: px(18), fill: "#111827" },
+      {
+        type: "text",
+        x: px(438),
+        y: px(58),
+        text: "Image Benchmark Suite",
+        fontSize: px(64),
+        fontWeight: 600,
+        color: "#ffffff",
+      },
+      {
+        type: "text",
+        x: px(438),
+        y: px(136),
+        text: "buffer | stream | kitchen sink | text layout | format compare",
+        fontSize: px(30),
+        fontWeight: 400,
+        color: "rgba(255, 255, 255, 0.82)",
+      },
+      {
+        type: "text",
+        x: px(438),
+        y: px(194),
+        text: "PNG / WEBP / SVG",
+        fontSize: px(44),
+        fontWeight: 600,
+        color: "#d1e5ff",
+      },
+      {
+        type: "text",
+        x: px(42),
+        y: px(364),
+        text: `samples: ${context.textSamples.length}`,
+        fontSize: px(28),
+        fontWeight: 400,
+        color: "#ffffff",
+      },
+      {
+        type: "text",
+        x: px(42),
+        y: px(404),
+        text: "stream source is in-memory (disk I/O excluded)",
+        fontSize: px(28),
+        fontWeight: 400,
+        color: "#ffffff",
+      },
+    ],
+  };
+}
+
+function complexityScene(context: BenchContext, count: number): Scene {
+  const { columns, cell, inset, size } = complexityGrid(context.width, context.height, count);
+  const fontSize = Math.max(1, Math.round(size * 0.4));
+
+  const nodes = Array.from({ length: count }, (_, index): SceneNode => {
+    const x = (index % columns) * cell + inset;
+    const y = Math.floor(index / columns) * cell + inset;
+    const kind = complexityElementKind(index);
+
+    if (kind === "image") {
+      return { type: "image", image: "avatar", x, y, width: size, height: size };
+    }
+
+    if (kind === "gradient") {
+      return {
+        type: "gradient",
+        x,
+        y,
+        width: size,
+        height: size,
+        stops: [
+          { offset: 0, color: complexityColor(index) },
+          { offset: 1, color: complexityColor(index + 3) },
+        ],
+      };
+    }
+
+    if (kind === "text") {
+      return { type: "text", x, y, text: String(index), fontSize, fontWeight: 600, color: "#ffffff" };
+    }
+
+    return { type: "roundedRect", x, y, width: size, height: size, radius: size * 0.2, fill: complexityColor(index) };
+  });
+
+  return { width: context.width, height: context.height, background: "#0f172a", nodes };
+}
+
+/**
+ * The scene a drawing task renders. `text-layout` only measures text and has no scene;
+ * renderers handle it before asking for one.
+ */
+export function buildScene(context: BenchContext, task: BenchTaskName): Scene {
+  if (task === "image-buffer" || task === "image-stream") {
+    return imageScene(context);
+  }
+
+  if (task === "text-layout") {
+    throw new Error("text-layout measures text and has no scene");
+  }
+
+  const complexity = complexityOf(task);
+
+  return complexity === null ? kitchenSinkScene(context) : complexityScene(context, complexity);
+}
+
+/**
+ * Like `buildScene`, but also resolves `scene:` tasks to their layout. Component scenes are
+ * JSX and have no node form, so renderers without a JSX engine skip them.
+ */
+export async function loadTaskScene(context: BenchContext, task: BenchTaskName): Promise<Scene> {
+  const userScene = await findUserScene(context, task);
+
+  if (!userScene) {
+    return buildScene(context, task);
+  }
+
+  if (userScene.kind === "component") {
+    throw new UnsupportedTaskError(task, "JSX component scenes need a JSX renderer (satori, takumi)");
+  }
+
+  return userScene.build(context);
+}
+
+function collectImageKeys(nodes: SceneNode[], keys: Set<SceneImageKey>): Set<SceneImageKey> {
+  for (const node of nodes) {
+    if (node.type === "image") {
+      keys.add(node.image);
+    } else if (node.type === "clip") {
+      collectImageKeys(node.children, keys);
+    }
+  }
+
+  return keys;
+}
+
+function isFixtureKey(context: BenchContext, key: SceneImageKey): key is keyof BenchContext["buffers"] {
+  return Object.hasOwn(context.buffers, key);
+}
+
+async function sceneImageSource(
+  scene: Scene,
+  context: BenchContext,
+  task: BenchTaskName,
+  key: SceneImageKey,
+): Promise<SceneImageSource> {
+  const own = scene.images?.[key];
+
+  if (own) {
+    return own;
+  }
+
+  if (!isFixtureKey(context, key)) {
+    throw new Error(`Scene references unknown image "${key}"`);
+  }
+
+  // `image-stream` measures reading its source through a stream on every render.
+  if (task === "image-stream" && key === "background") {
+    return { buffer: await streamToBuffer(context.createBackgroundStream()), dataUri: null };
+  }
+
+  return { buffer: context.buffers[key], dataUri: context.dataUris[key] };
+}
+
+/** Resolves every image the scene references once per render. */
+export async function resolveSceneImages<T>(
+  scene: Scene,
+  context: BenchContext,
+  task: BenchTaskName,
+  resolve: (source: SceneImageSource) => T | Promise<T>,
+): Promise<SceneImages<T>> {
+  const entries = await Promise.all(
+    [...collectImageKeys(scene.nodes, new Set())].map(
+      async (key) => [key, await resolve(await sceneImageSource(scene, context, task, key))] as const,
+    ),
+  );
+
+  return Object.fromEntries(entries) as SceneImages<T>;
+}
+
+export function sceneImage<T>(images: SceneImages<T>, key: SceneImageKey): T {
+  const image = images[key];
+
+  if (image === undefined) {
+    throw new Error(`Scene image "${key}" was not resolved`);
+  }
+
+  return image;
+}
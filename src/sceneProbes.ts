@@ -0,0 +1,531 @@
+import { readFile } from "node:fs/promises";
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import { applyDevicePixelRatio, drawScene } from "./canvasScene.js";
+import { withOutputSize } from "./context.js";
+import {
+  type Scene,
+  type SceneCircleNode,
+  type SceneClipNode,
+  type SceneGradientNode,
+  type SceneImageNode,
+  type SceneNode,
+  type SceneRoundedRectNode,
+  type SceneTextNode,
+  buildScene,
+  resolveSceneImages,
+} from "./scene.js";
+import type { BenchContext, BenchTaskName, OutputSize } from "./types.js";
+import { formatSize, physicalSize } from "./utils.js";
+import { type RasterImage, type VisualDiffImage, decodeImage } from "./visualDiff.js";
+
+/** Workloads that draw the kitchen-sink scene, whatever they encode it as. */
+export const PROBED_TASKS: readonly BenchTaskName[] = ["kitchen-sink", "encode-png", "encode-webp", "encode-svg"];
+
+/** A sampled color within this many levels (0-255) per channel of the expected one matches. */
+const COLOR_TOLERANCE = 32;
+
+/** Lossy WebP's chroma subsampling bleeds neighboring colors into thin features such as the ring. */
+const WEBP_COLOR_TOLERANCE = 48;
+
+/** Share of the title's box that must be near-white for the text to count as drawn. */
+const MIN_TEXT_COVERAGE = 0.02;
+
+type Rgb = [number, number, number];
+
+export interface SceneProbeImage {
+  renderer: string;
+  task: BenchTaskName;
+  size: OutputSize;
+  format: VisualDiffImage["format"];
+  path: string;
+}
+
+export interface SceneProbeCheck {
+  probe: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface SceneProbeResult {
+  renderer: string;
+  task: BenchTaskName;
+  checks: SceneProbeCheck[];
+}
+
+/** The kitchen-sink nodes the probes look at, found by what they draw rather than by index. */
+interface Landmarks {
+  background: SceneImageNode;
+  overlay: SceneGradientNode;
+  track: SceneRoundedRectNode;
+  bar: SceneRoundedRectNode;
+  ring: SceneCircleNode;
+  hole: SceneCircleNode;
+  avatarClip: SceneClipNode;
+  title: SceneTextNode;
+}
+
+/**
+ * Partial renders of the scene by the canvas compiler, used where the expected pixels depend
+ * on the fixtures: each probe asks whether the output looks more like the intended layering
+ * or like a known failure (no overlay, an unclipped avatar).
+ */
+interface ProbeReferences {
+  context: BenchContext;
+  scene: Scene;
+  landmarks: Landmarks;
+  /** Background and gradient overlay: what shows around and behind the landmarks. */
+  backdrop: RasterImage;
+  /** Background alone, as drawn by a renderer that drops the overlay. */
+  bare: RasterImage;
+  /** Backdrop with the avatar drawn without its clip. */
+  unclipped: RasterImage;
+}
+
+function findLandmark<T extends SceneNode>(
+  nodes: SceneNode[],
+  description: string,
+  match: (node: SceneNode) => node is T,
+): T {
+  const node = nodes.find(match);
+
+  if (!node) {
+    throw new Error(`The kitchen-sink scene has no ${description}; update the scene probes`);
+  }
+
+  return node;
+}
+
+function findLandmarks(scene: Scene): Landmarks {
+  const { nodes } = scene;
+  const bar = findLandmark(
+    nodes,
+    "#4f91df progress bar",
+    (node): node is SceneRoundedRectNode => node.type === "roundedRect" && node.fill === "#4f91df",
+  );
+  const ring = findLandmark(
+    nodes,
+    "#f59e0b ring",
+    (node): node is SceneCircleNode => node.type === "circle" && node.fill === "#f59e0b",
+  );
+
+  return {
+    background: findLandmark(
+      nodes,
+      "background image",
+      (node): node is SceneImageNode => node.type === "image" && node.image === "background",
+    ),
+    overlay: findLandmark(nodes, "gradient overlay", (node): node is SceneGradientNode => node.type === "gradient"),
+    // The track is the rounded rect the bar is drawn over, starting at the same point.
+    track: findLandmark(
+      nodes,
+      "progress track",
+      (node): node is SceneRoundedRectNode =>
+        node.type === "roundedRect" && node !== bar && node.x === bar.x && node.y === bar.y,
+    ),
+    bar,
+    ring,
+    hole: findLandmark(
+      nodes,
+      "ring hole",
+      (node): node is SceneCircleNode =>
+        node.type === "circle" && node !== ring && node.cx === ring.cx && node.cy === ring.cy && node.radius < ring.radius,
+    ),
+    avatarClip: findLandmark(
+      nodes,
+      "avatar clip",
+      (node): node is SceneClipNode =>
+        node.type === "clip" && node.children.some((child) => child.type === "image" && child.image === "avatar"),
+    ),
+    title: findLandmark(
+      nodes,
+      "white title text",
+      (node): node is SceneTextNode => node.type === "text" && node.color === "#ffffff",
+    ),
+  };
+}
+
+async function renderNodes(scene: Scene, nodes: SceneNode[], context: BenchContext): Promise<RasterImage> {
+  const partial: Scene = { ...scene, nodes };
+  const physical = physicalSize(context);
+  const canvas = createCanvas(physical.width, physical.height);
+  const ctx = canvas.getContext("2d") as unknown as Parameters<typeof drawScene>[0];
+  const images = await resolveSceneImages(partial, context, "kitchen-sink", async (source) =>
+    (await loadImage(source.buffer)) as { width: number; height: number },
+  );
+
+  applyDevicePixelRatio(ctx, context);
+  drawScene(ctx, partial, images, context);
+
+  const data = canvas.getContext("2d").getImageData(0, 0, physical.width, physical.height).data;
+  return { width: physical.width, height: physical.height, data };
+}
+
+async function buildReferences(context: BenchContext): Promise<ProbeReferences> {
+  const scene = buildScene(context, "kitchen-sink");
+  const landmarks = findLandmarks(scene);
+  const { background, overlay, avatarClip } = landmarks;
+
+  return {
+    context,
+    scene,
+    landmarks,
+    backdrop: await renderNodes(scene, [background, overlay], context),
+    bare: await renderNodes(scene, [background], context),
+    unclipped: await renderNodes(scene, [background, overlay, ...avatarClip.children], context),
+  };
+}
+
+function parseHexColor(color: string): Rgb {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+
+  if (!match) {
+    throw new Error(`Scene probes need #rrggbb landmark colors, got "${color}"`);
+  }
+
+  return [Number.parseInt(match[1]!, 16), Number.parseInt(match[2]!, 16), Number.parseInt(match[3]!, 16)];
+}
+
+function formatColor(color: Rgb): string {
+  return `#${color.map((channel) => Math.round(channel).toString(16).padStart(2, "0")).join("")}`;
+}
+
+function distance(left: Rgb, right: Rgb): number {
+  return Math.max(...left.map((channel, index) => Math.abs(channel - right[index]!)));
+}
+
+/** Mean color of a small window around a point given in logical pixels. */
+function sample(image: RasterImage, context: BenchContext, x: number, y: number): Rgb {
+  const radius = Math.max(1, Math.round(context.dpr));
+  const centerX = Math.round(x * context.dpr);
+  const centerY = Math.round(y * context.dpr);
+  const sum: Rgb = [0, 0, 0];
+  let count = 0;
+
+  for (let row = centerY - radius; row <= centerY + radius; row += 1) {
+    for (let column = centerX - radius; column <= centerX + radius; column += 1) {
+      if (row < 0 || column < 0 || row >= image.height || column >= image.width) {
+        continue;
+      }
+
+      const offset = (row * image.width + column) * 4;
+      sum[0] += image.data[offset]!;
+      sum[1] += image.data[offset + 1]!;
+      sum[2] += image.data[offset + 2]!;
+      count += 1;
+    }
+  }
+
+  return sum.map((channel) => channel / Math.max(1, count)) as Rgb;
+}
+
+/** True when the output at a point is closer to `expected` than to `alternative`. */
+function closerTo(
+  output: RasterImage,
+  expected: RasterImage,
+  alternative: RasterImage,
+  context: BenchContext,
+  point: [number, number],
+): boolean | null {
+  const actual = sample(output, context, ...point);
+  const wanted = sample(expected, context, ...point);
+  const unwanted = sample(alternative, context, ...point);
+
+  // Where the two references look alike the point cannot tell them apart.
+  if (distance(wanted, unwanted) <= COLOR_TOLERANCE / 2) {
+    return null;
+  }
+
+  return distance(actual, wanted) < distance(actual, unwanted);
+}
+
+function checkSolid(
+  output: RasterImage,
+  context: BenchContext,
+  tolerance: number,
+  probe: string,
+  fill: string,
+  points: Array<[number, number]>,
+): SceneProbeCheck {
+  const expected = parseHexColor(fill);
+  const misses = points
+    .map((point) => ({ point, color: sample(output, context, ...point) }))
+    .filter(({ color }) => distance(color, expected) > tolerance);
+
+  if (misses.length === 0) {
+    return { probe, passed: true, detail: fill };
+  }
+
+  const [{ point, color }] = misses as [(typeof misses)[number]];
+  return {
+    probe,
+    passed: false,
+    detail: `expected ${fill}, found ${formatColor(color)} at ${Math.round(point[0])},${Math.round(point[1])} (${misses.length}/${points.length} points off)`,
+  };
+}
+
+function checkBar(output: RasterImage, tolerance: number, { context, landmarks }: ProbeReferences): SceneProbeCheck[] {
+  const { bar, track } = landmarks;
+  const middle = bar.y + bar.height / 2;
+  const share = Math.round((bar.width / track.width) * 100);
+  const fill = checkSolid(output, context, tolerance, `progress bar (${share}% width)`, bar.fill, [
+    [bar.x + bar.radius, middle],
+    [bar.x + bar.width / 2, middle],
+    [bar.x + bar.width - bar.radius, middle],
+  ]);
+  // Just past the bar's rounded end the track must show through.
+  const pastEnd: [number, number] = [bar.x + bar.width + bar.radius, middle];
+  const color = sample(output, context, ...pastEnd);
+  const stopsAtEnd = distance(color, parseHexColor(bar.fill)) > tolerance;
+
+  return [
+    fill,
+    {
+      probe: "progress bar end",
+      passed: stopsAtEnd,
+      detail: stopsAtEnd
+        ? `track shows at x=${Math.round(pastEnd[0])}`
+        : `bar color continues past ${share}% (x=${Math.round(pastEnd[0])})`,
+    },
+  ];
+}
+
+function checkRing(output: RasterImage, tolerance: number, { context, landmarks }: ProbeReferences): SceneProbeCheck[] {
+  const { ring, hole } = landmarks;
+  const band = (ring.radius + hole.radius) / 2;
+
+  return [
+    checkSolid(output, context, tolerance, "ring", ring.fill, [
+      [ring.cx + band, ring.cy],
+      [ring.cx - band, ring.cy],
+      [ring.cx, ring.cy + band],
+      [ring.cx, ring.cy - band],
+    ]),
+    checkSolid(output, context, tolerance, "ring hole", hole.fill, [[hole.cx, hole.cy]]),
+  ];
+}
+
+/**
+ * Samples each corner of the clip halfway between the box corner and the rounded edge, where a
+ * rounded clip shows the backdrop and a rectangular one shows the avatar.
+ */
+function checkAvatarClip(output: RasterImage, references: ProbeReferences): SceneProbeCheck[] {
+  const { context, backdrop, unclipped } = references;
+  const clip = references.landmarks.avatarClip;
+  const inset = (clip.radius * (1 - Math.SQRT1_2)) / 2;
+  const left = clip.x + inset;
+  const right = clip.x + clip.width - inset;
+  const top = clip.y + inset;
+  const bottom = clip.y + clip.height - inset;
+  const corners = [
+    [left, top],
+    [right, top],
+    [left, bottom],
+    [right, bottom],
+  ].map((point) => closerTo(output, backdrop, unclipped, context, point as [number, number]));
+  const conclusive = corners.filter((corner) => corner !== null);
+  const square = conclusive.filter((rounded) => !rounded).length;
+  const drawn = closerTo(output, unclipped, backdrop, context, [clip.x + clip.width / 2, clip.y + clip.height / 2]);
+
+  return [
+    {
+      probe: "avatar",
+      passed: drawn !== false,
+      detail: drawn === false ? "avatar missing: the backdrop shows inside the clip" : "drawn",
+    },
+    {
+      probe: `avatar clip corners (radius ${clip.radius})`,
+      passed: square === 0,
+      detail:
+        conclusive.length === 0
+          ? "inconclusive: the avatar matches the backdrop at the corners"
+          : square === 0
+            ? `rounded (${conclusive.length} corner(s) checked)`
+            : `rectangular clip: the avatar shows in ${square}/${conclusive.length} corner(s)`,
+    },
+  ];
+}
+
+/**
+ * Looks for near-white pixels in the title's line box, from a quarter em before its `x` to
+ * the end of the canvas or a generous estimate of the text's width.
+ */
+function checkTitle(output: RasterImage, { context, landmarks }: ProbeReferences): SceneProbeCheck {
+  const { title } = landmarks;
+  const start = Math.max(0, Math.round((title.x - title.fontSize / 4) * context.dpr));
+  const end = Math.min(output.width, Math.round((title.x + title.text.length * title.fontSize * 0.6) * context.dpr));
+  const top = Math.max(0, Math.round(title.y * context.dpr));
+  const bottom = Math.min(output.height, Math.round((title.y + title.fontSize) * context.dpr));
+  const probe = `title text at x=${title.x}`;
+  let white = 0;
+  let firstColumn: number | null = null;
+
+  for (let row = top; row < bottom; row += 1) {
+    for (let column = start; column < end; column += 1) {
+      const offset = (row * output.width + column) * 4;
+
+      if (output.data[offset]! >= 200 && output.data[offset + 1]! >= 200 && output.data[offset + 2]! >= 200) {
+        white += 1;
+        firstColumn = firstColumn === null ? column : Math.min(firstColumn, column);
+      }
+    }
+  }
+
+  const coverage = white / Math.max(1, (end - start) * (bottom - top));
+
+  if (coverage < MIN_TEXT_COVERAGE || firstColumn === null) {
+    return { probe, passed: false, detail: `no white text (${(coverage * 100).toFixed(1)}% of the line box)` };
+  }
+
+  // Glyph side bearings put the first ink a little right of the pen position.
+  const startsAt = firstColumn / context.dpr;
+  const aligned = startsAt >= title.x - title.fontSize * 0.1 && startsAt <= title.x + title.fontSize * 0.2;
+
+  return {
+    probe,
+    passed: aligned,
+    detail: aligned
+      ? `starts at x=${Math.round(startsAt)}`
+      : `text starts at x=${Math.round(startsAt)}, expected about ${title.x}`,
+  };
+}
+
+/** A node's box; text boxes are estimated generously. */
+function nodeBox(node: SceneNode): { y: number; height: number } {
+  if (node.type === "circle") {
+    return { y: node.cy - node.radius, height: node.radius * 2 };
+  }
+
+  return node.type === "text" ? { y: node.y, height: node.fontSize * 1.2 } : node;
+}
+
+function pixelDistance(left: RasterImage, right: RasterImage, offset: number): number {
+  return Math.max(
+    Math.abs(left.data[offset]! - right.data[offset]!),
+    Math.abs(left.data[offset + 1]! - right.data[offset + 1]!),
+    Math.abs(left.data[offset + 2]! - right.data[offset + 2]!),
+  );
+}
+
+/**
+ * Compares the rows no other node touches (above and below the content) with the backdrop and
+ * the bare background. The dark overlay shifts the fixture by only a few levels per pixel, so
+ * the verdict is taken on the mean over every other pixel of those rows rather than on points.
+ */
+function checkOverlay(output: RasterImage, references: ProbeReferences): SceneProbeCheck {
+  const { context, scene, landmarks, backdrop, bare } = references;
+  const boxes = scene.nodes
+    .filter((node) => node !== landmarks.background && node !== landmarks.overlay)
+    .map(nodeBox);
+  let withOverlay = 0;
+  let withoutOverlay = 0;
+  let separation = 0;
+  let count = 0;
+
+  for (let row = 0; row < output.height; row += 2) {
+    const y = row / context.dpr;
+
+    if (boxes.some((box) => y >= box.y && y <= box.y + box.height)) {
+      continue;
+    }
+
+    for (let column = 0; column < output.width; column += 2) {
+      const offset = (row * output.width + column) * 4;
+      withOverlay += pixelDistance(output, backdrop, offset);
+      withoutOverlay += pixelDistance(output, bare, offset);
+      separation += pixelDistance(backdrop, bare, offset);
+      count += 1;
+    }
+  }
+
+  const probe = "gradient overlay";
+
+  if (count === 0 || separation / count < 2) {
+    return { probe, passed: true, detail: "inconclusive: the overlay barely changes the background here" };
+  }
+
+  const present = withOverlay < withoutOverlay;
+  const errors = `mean error ${(withOverlay / count).toFixed(1)} with the overlay, ${(withoutOverlay / count).toFixed(1)} without`;
+
+  return {
+    probe,
+    passed: present,
+    detail: present ? `present (${errors})` : `missing gradient overlay (${errors})`,
+  };
+}
+
+/**
+ * Decodes each saved kitchen-sink output (SVG rasterized at the device-pixel size) and samples
+ * the scene's landmarks: bar and ring colors, the bar's length, the avatar's rounded clip,
+ * the title text and the gradient overlay. Geometry comes from the scene's own nodes, so the
+ * probes follow the layout at every size.
+ */
+export async function runSceneProbes(images: SceneProbeImage[], context: BenchContext): Promise<SceneProbeResult[]> {
+  const references = new Map<string, ProbeReferences>();
+  const results: SceneProbeResult[] = [];
+
+  for (const image of images) {
+    if (!PROBED_TASKS.includes(image.task)) {
+      continue;
+    }
+
+    const key = formatSize(image.size);
+    let reference = references.get(key);
+
+    if (!reference) {
+      reference = await buildReferences(withOutputSize(context, image.size));
+      references.set(key, reference);
+    }
+
+    const output = await decodeImage(
+      await readFile(image.path),
+      image.format,
+      context.fonts,
+      physicalSize(reference.context),
+    );
+    const tolerance = image.format === "webp" ? WEBP_COLOR_TOLERANCE : COLOR_TOLERANCE;
+
+    results.push({
+      renderer: image.renderer,
+      task: image.task,
+      checks: [
+        ...checkBar(output, tolerance, reference),
+        ...checkRing(output, tolerance, reference),
+        ...checkAvatarClip(output, reference),
+        checkTitle(output, reference),
+        checkOverlay(output, reference),
+      ],
+    });
+  }
+
+  return results;
+}
+
+export function buildSceneProbeMarkdown(results: SceneProbeResult[]): string[] {
+  if (results.length === 0) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  lines.push("## Scene Probes");
+  lines.push("");
+  lines.push(
+    `- Kitchen-sink outputs are decoded and sampled at landmarks taken from the scene's nodes: bar and ring fills (within ${COLOR_TOLERANCE}/255 per channel, ${WEBP_COLOR_TOLERANCE}/255 for WebP), where the bar ends, the avatar clip's corners, the white title text and the gradient overlay.`,
+  );
+  lines.push(
+    "- Clip corners and the overlay are judged against partial renders of the scene (backdrop with and without the overlay, avatar with and without its clip), so they hold for any fixtures.",
+  );
+  lines.push("");
+  lines.push("| Renderer | Task | Passed | Fidelity issues |");
+  lines.push("|---|---|---:|---|");
+
+  for (const result of results) {
+    const failed = result.checks.filter((check) => !check.passed);
+    const issues = failed.map((check) => `${check.probe}: ${check.detail}`).join("; ") || "-";
+    lines.push(
+      `| ${result.renderer}${failed.length > 0 ? " ✗" : ""} | ${result.task} | ${result.checks.length - failed.length}/${result.checks.length} | ${issues.replaceAll("|", "\\|")} |`,
+    );
+  }
+
+  lines.push("");
+  return lines;
+}
@@ -0,0 +1,292 @@
+import { mkdir, readFile, rm, rmdir, writeFile } from "node:fs/promises";
+import os from "node:os";
+import { dirname, join, relative, resolve } from "node:path";
+import process from "node:process";
+import { parseArgs } from "node:util";
+import { cliArgs, parseNumber, parseTasks, selectRenderers } from "./cli.js";
+import { createBenchContext } from "./context.js";
+import { ALL_TASKS } from "./tasks.js";
+import type { BenchContext, BenchRenderer, BenchTaskName, TaskOutput } from "./types.js";
+import { UnsupportedTaskError, round, toSafeFileName } from "./utils.js";
+import { DIFF_PIXEL_THRESHOLD, compareWithRaster, decodeImage, writeHeatmap } from "./visualDiff.js";
+import { type RendererEntry, rendererEntries } from "./workerPool.js";
+
+type SnapshotStatus = "passed" | "failed" | "missing" | "updated" | "skipped";
+
+interface SnapshotResult {
+  renderer: string;
+  task: BenchTaskName;
+  status: SnapshotStatus;
+  goldenPath: string | null;
+  ssim: number | null;
+  differingPixels: number | null;
+  /** Where the new output and its heatmap against the golden were written on failure. */
+  actualPath: string | null;
+  diffPath: string | null;
+  detail: string;
+}
+
+interface SnapshotOptions {
+  tasks: BenchTaskName[];
+  snapshotDir: string;
+  /** Where a failing snapshot's new output and heatmap are written. */
+  artifactDir: string;
+  reportJsonPath: string;
+  reportMarkdownPath: string;
+  update: boolean;
+  /** Largest share of pixels that may differ from the golden (see `DIFF_PIXEL_THRESHOLD`). */
+  tolerance: number;
+  minSsim: number;
+}
+
+function parseSnapshotOptions(): SnapshotOptions & { renderers: RendererEntry[] } {
+  const { values } = parseArgs({
+    args: cliArgs(),
+    options: {
+      workload: { type: "string", multiple: true },
+      renderer: { type: "string", multiple: true },
+      "exclude-renderer": { type: "string", multiple: true },
+      "snapshot-dir": { type: "string" },
+      "artifact-dir": { type: "string" },
+      "report-json": { type: "string" },
+      "report-markdown": { type: "string" },
+      tolerance: { type: "string" },
+      "min-ssim": { type: "string" },
+      "update-snapshots": { type: "boolean", default: false },
+    },
+    strict: true,
+    allowPositionals: false,
+  });
+
+  const minSsim = parseNumber(values["min-ssim"] ?? process.env.BENCH_SNAPSHOT_MIN_SSIM, 0.99, "min-ssim");
+
+  if (minSsim > 1) {
+    throw new Error("min-ssim must be at most 1");
+  }
+
+  return {
+    // `text-layout` only produces a metric, so there is nothing to snapshot.
+    tasks: (values.workload === undefined ? ALL_TASKS : parseTasks(values.workload)).filter(
+      (task) => task !== "text-layout",
+    ),
+    renderers: selectRenderers(rendererEntries([]), values.renderer ?? null, values["exclude-renderer"] ?? []),
+    snapshotDir: resolve(values["snapshot-dir"] ?? "snapshots"),
+    artifactDir: resolve(values["artifact-dir"] ?? join("outputs", "snapshots")),
+    reportJsonPath: resolve(values["report-json"] ?? join("outputs", "snapshot-report.json")),
+    reportMarkdownPath: resolve(values["report-markdown"] ?? join("outputs", "snapshot-report.md")),
+    update: values["update-snapshots"],
+    tolerance: parseNumber(values.tolerance ?? process.env.BENCH_SNAPSHOT_TOLERANCE, 0.005, "tolerance"),
+    minSsim,
+  };
+}
+
+/** Every artifact extension `checkSnapshot` writes: the new output in each format and its heatmap. */
+const ARTIFACT_EXTENSIONS = ["png", "webp", "svg", "diff.png"];
+
+function snapshotName(renderer: string, task: BenchTaskName, extension: string): string {
+  return join(toSafeFileName(task), `${toSafeFileName(renderer)}.${extension}`);
+}
+
+/**
+ * Removes the artifacts an earlier run may have left for any renderer and workload, then the
+ * workload directories that are left empty. Only file names this tool writes are touched, so
+ * anything else in the artifact directory is kept.
+ */
+async function clearArtifacts(artifactDir: string, tasks: BenchTaskName[]): Promise<void> {
+  const renderers = rendererEntries([]).map((entry) => entry.name);
+
+  for (const task of new Set([...ALL_TASKS, ...tasks])) {
+    await Promise.all(
+      renderers.flatMap((renderer) =>
+        ARTIFACT_EXTENSIONS.map((extension) =>
+          rm(join(artifactDir, snapshotName(renderer, task, extension)), { force: true }),
+        ),
+      ),
+    );
+
+    try {
+      await rmdir(join(artifactDir, toSafeFileName(task)));
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+
+      if (code !== "ENOENT" && code !== "ENOTEMPTY" && code !== "EEXIST") {
+        throw error;
+      }
+    }
+  }
+}
+
+async function readGolden(path: string): Promise<Buffer | null> {
+  try {
+    return await readFile(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+
+    throw error;
+  }
+}
+
+async function writeArtifact(path: string, data: Buffer | Uint8Array): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, data);
+}
+
+/** Renders one renderer/task pair once and checks the output against its golden image. */
+async function checkSnapshot(
+  renderer: BenchRenderer,
+  task: BenchTaskName,
+  context: BenchContext,
+  options: SnapshotOptions,
+): Promise<SnapshotResult> {
+  const base = { renderer: renderer.name, task, ssim: null, differingPixels: null, actualPath: null, diffPath: null };
+  let output: TaskOutput;
+
+  try {
+    output = await renderer.run(context, task);
+  } catch (error) {
+    if (error instanceof UnsupportedTaskError) {
+      return { ...base, status: "skipped", goldenPath: null, detail: error.detail };
+    }
+
+    throw error;
+  }
+
+  if (output.kind !== "image") {
+    return { ...base, status: "skipped", goldenPath: null, detail: "produces a metric, not an image" };
+  }
+
+  const name = snapshotName(renderer.name, task, output.format);
+  const goldenPath = join(options.snapshotDir, name);
+  const golden = await readGolden(goldenPath);
+
+  if (options.update) {
+    if (golden?.equals(output.buffer)) {
+      return { ...base, status: "passed", goldenPath, detail: "unchanged" };
+    }
+
+    await writeArtifact(goldenPath, output.buffer);
+    return { ...base, status: "updated", goldenPath, detail: golden ? "golden replaced" : "golden created" };
+  }
+
+  if (!golden) {
+    const actualPath = join(options.artifactDir, name);
+    await writeArtifact(actualPath, output.buffer);
+    return { ...base, status: "missing", goldenPath, actualPath, detail: "no golden image; run with --update-snapshots" };
+  }
+
+  if (golden.equals(output.buffer)) {
+    return { ...base, status: "passed", goldenPath, ssim: 1, differingPixels: 0, detail: "byte-identical" };
+  }
+
+  const goldenRaster = await decodeImage(golden, output.format, context.fonts);
+  const { comparison, resized } = await compareWithRaster(goldenRaster, output.buffer, output.format, context.fonts);
+  const within = !resized && comparison.ssim >= options.minSsim && comparison.differingPixels <= options.tolerance;
+  const measured = { ssim: comparison.ssim, differingPixels: round(comparison.differingPixels, 6) };
+
+  if (within) {
+    return { ...base, ...measured, status: "passed", goldenPath, detail: "within tolerance" };
+  }
+
+  const actualPath = join(options.artifactDir, name);
+  const diffPath = join(options.artifactDir, snapshotName(renderer.name, task, "diff.png"));
+  await writeArtifact(actualPath, output.buffer);
+  await mkdir(dirname(diffPath), { recursive: true });
+  await writeHeatmap(diffPath, goldenRaster, comparison.magnitude);
+
+  return {
+    ...base,
+    ...measured,
+    status: "failed",
+    goldenPath,
+    actualPath,
+    diffPath,
+    detail: resized ? "output size changed" : "outside tolerance",
+  };
+}
+
+function formatPath(path: string | null): string {
+  return path === null ? "-" : relative(process.cwd(), path);
+}
+
+function buildMarkdownReport(options: SnapshotOptions, results: SnapshotResult[]): string {
+  const lines: string[] = [];
+  const failures = results.filter((result) => result.status === "failed" || result.status === "missing");
+
+  lines.push("# Node Image Library Snapshot Report");
+  lines.push("");
+  lines.push(`Generated: ${new Date().toISOString()}`);
+  lines.push(`- Node.js: ${process.version}`);
+  lines.push(`- Platform: ${process.platform} ${process.arch}`);
+  lines.push(`- CPU: ${os.cpus()[0]?.model ?? "unknown"}`);
+  lines.push(`- Goldens: ${formatPath(options.snapshotDir)}`);
+  lines.push(
+    `- Tolerance: SSIM ≥ ${options.minSsim} and at most ${round(options.tolerance * 100, 3)}% of pixels differing by more than ${DIFF_PIXEL_THRESHOLD}/255 in any channel`,
+  );
+  lines.push(`- Mode: ${options.update ? "update" : "check"}`);
+  lines.push(`- Result: ${failures.length === 0 ? "pass" : `${failures.length} failing snapshot(s)`}`);
+  lines.push("");
+  lines.push("| Renderer | Task | Status | SSIM | Differing pixels | Golden | Actual | Diff | Detail |");
+  lines.push("|---|---|---|---:|---:|---|---|---|---|");
+
+  for (const result of results) {
+    const differing = result.differingPixels === null ? "-" : `${round(result.differingPixels * 100, 3)}%`;
+    lines.push(
+      `| ${result.renderer} | ${result.task} | ${result.status} | ${result.ssim?.toFixed(4) ?? "-"} | ${differing} | ${formatPath(result.goldenPath)} | ${formatPath(result.actualPath)} | ${formatPath(result.diffPath)} | ${result.detail.replaceAll("|", "\\|")} |`,
+    );
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
+
+const { renderers, ...options } = parseSnapshotOptions();
+// Goldens are rendered at the default size with the bundled fixtures and fonts.
+const context = await createBenchContext();
+const results: SnapshotResult[] = [];
+const loaded: BenchRenderer[] = [];
+
+// Artifacts describe this run only; stale ones from an earlier failure would be misleading.
+await clearArtifacts(options.artifactDir, options.tasks);
+
+try {
+  for (const entry of renderers) {
+    const renderer = await entry.load();
+    loaded.push(renderer);
+    await renderer.prepare?.(context);
+
+    for (const task of options.tasks) {
+      process.stdout.write(`snapshot ${renderer.name} :: ${task} ... `);
+      const result = await checkSnapshot(renderer, task, context, options);
+      results.push(result);
+      console.log(
+        result.ssim === null || result.status === "updated" ? result.status : `${result.status} (SSIM ${result.ssim.toFixed(4)})`,
+      );
+    }
+  }
+} finally {
+  await Promise.all(loaded.map((renderer) => renderer.dispose?.()));
+}
+
+const { reportJsonPath, reportMarkdownPath } = options;
+
+await mkdir(dirname(reportJsonPath), { recursive: true });
+await mkdir(dirname(reportMarkdownPath), { recursive: true });
+await Promise.all([
+  writeFile(
+    reportJsonPath,
+    `${JSON.stringify({ generatedAt: new Date().toISOString(), node: process.version, ...options, results }, null, 2)}\n`,
+  ),
+  writeFile(reportMarkdownPath, buildMarkdownReport(options, results)),
+]);
+
+console.log(`\nWrote JSON report: ${reportJsonPath}`);
+console.log(`Wrote Markdown report: ${reportMarkdownPath}`);
+
+const failures = results.filter((result) => result.status === "failed" || result.status === "missing");
+
+if (failures.length > 0) {
+  console.error(`\n${failures.length} snapshot(s) failed; diff artifacts are in ${options.artifactDir}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,166 @@
+import process from "node:process";
+import type { SoakMemorySample, SoakOptions, SoakStats } from "./types.js";
+import { formatMb, round } from "./utils.js";
+
+const SOAK_METRICS = ["rssMb", "heapUsedMb", "externalMb", "arrayBuffersMb"] as const;
+
+/** The first part of a soak is allocator and JIT ramp-up, not a leak. */
+const RAMP_UP_FRACTION = 0.1;
+
+export function linearRegression(xs: number[], ys: number[]): { slope: number; intercept: number; r2: number } {
+  const count = Math.min(xs.length, ys.length);
+
+  if (count < 2) {
+    return { slope: 0, intercept: ys[0] ?? 0, r2: 0 };
+  }
+
+  let sumX = 0;
+  let sumY = 0;
+  for (let index = 0; index < count; index += 1) {
+    sumX += xs[index]!;
+    sumY += ys[index]!;
+  }
+
+  const meanX = sumX / count;
+  const meanY = sumY / count;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+
+  for (let index = 0; index < count; index += 1) {
+    const dx = xs[index]! - meanX;
+    const dy = ys[index]! - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+
+  if (varianceX === 0) {
+    return { slope: 0, intercept: meanY, r2: 0 };
+  }
+
+  const slope = covariance / varianceX;
+  return {
+    slope,
+    intercept: meanY - slope * meanX,
+    r2: varianceY === 0 ? 0 : (covariance * covariance) / (varianceX * varianceY),
+  };
+}
+
+/**
+ * Samples memory at most once per `intervalMs`, forcing a GC first (when exposed) so
+ * the series tracks retained memory rather than garbage awaiting collection.
+ */
+export function createMemoryRecorder(intervalMs: number): {
+  samples: SoakMemorySample[];
+  maybeSample: (iteration: number, force?: boolean) => void;
+} {
+  const startedAt = performance.now();
+  const samples: SoakMemorySample[] = [];
+  let lastSampleAt = -Infinity;
+
+  return {
+    samples,
+    maybeSample: (iteration, force = false) => {
+      const now = performance.now();
+
+      if (!force && now - lastSampleAt < intervalMs) {
+        return;
+      }
+
+      lastSampleAt = now;
+      globalThis.gc?.();
+      const memory = process.memoryUsage();
+      samples.push({
+        iteration,
+        elapsedMs: round(now - startedAt),
+        rssMb: round(formatMb(memory.rss)),
+        heapUsedMb: round(formatMb(memory.heapUsed)),
+        externalMb: round(formatMb(memory.external)),
+        arrayBuffersMb: round(formatMb(memory.arrayBuffers)),
+      });
+    },
+  };
+}
+
+export function shouldStopSoak(options: SoakOptions, iterations: number, elapsedMs: number): boolean {
+  if (options.iterations !== null) {
+    return iterations >= options.iterations;
+  }
+
+  return elapsedMs >= options.durationMs!;
+}
+
+export function summarizeSoak(samples: SoakMemorySample[], options: SoakOptions): SoakStats {
+  const lastIteration = samples[samples.length - 1]?.iteration ?? 0;
+  const fitted = samples.filter((entry) => entry.iteration >= lastIteration * RAMP_UP_FRACTION);
+  const xs = fitted.map((entry) => entry.iteration);
+
+  const growth = Object.fromEntries(
+    SOAK_METRICS.map((metric) => {
+      const fit = linearRegression(
+        xs,
+        fitted.map((entry) => entry[metric]),
+      );
+      return [metric, { mbPer1kRenders: round(fit.slope * 1_000, 4), r2: round(fit.r2, 3) }];
+    }),
+  ) as SoakStats["growth"];
+
+  const flagged = SOAK_METRICS.filter((metric) => growth[metric].mbPer1kRenders > options.thresholdMbPer1k);
+
+  return {
+    iterations: lastIteration,
+    durationMs: samples[samples.length - 1]?.elapsedMs ?? 0,
+    thresholdMbPer1k: options.thresholdMbPer1k,
+    growth,
+    flagged,
+    samples,
+  };
+}
+
+const CHART_COLORS: Record<(typeof SOAK_METRICS)[number], string> = {
+  rssMb: "#ef4444",
+  heapUsedMb: "#3b82f6",
+  externalMb: "#f59e0b",
+  arrayBuffersMb: "#10b981",
+};
+
+/**
+ * Renders the memory series as a standalone SVG line chart (x: renders, y: MB).
+ */
+export function buildSoakChartSvg(title: string, soak: SoakStats): string {
+  const width = 960;
+  const height = 420;
+  const padding = { top: 40, right: 170, bottom: 40, left: 64 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+  const maxIteration = Math.max(1, ...soak.samples.map((entry) => entry.iteration));
+  const maxMb = Math.max(1, ...soak.samples.flatMap((entry) => SOAK_METRICS.map((metric) => entry[metric])));
+  const x = (iteration: number) => padding.left + (iteration / maxIteration) * plotWidth;
+  const y = (mb: number) => padding.top + plotHeight - (mb / maxMb) * plotHeight;
+  const escape = (text: string) => text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;");
+
+  const lines = SOAK_METRICS.map((metric, index) => {
+    const points = soak.samples.map((entry) => `${x(entry.iteration).toFixed(1)},${y(entry[metric]).toFixed(1)}`).join(" ");
+    const legendY = padding.top + index * 22;
+    return [
+      `<polyline fill="none" stroke="${CHART_COLORS[metric]}" stroke-width="2" points="${points}" />`,
+      `<rect x="${width - padding.right + 16}" y="${legendY - 10}" width="12" height="12" fill="${CHART_COLORS[metric]}" />`,
+      `<text x="${width - padding.right + 34}" y="${legendY}" font-size="13">${metric} (${soak.growth[metric].mbPer1kRenders} MB/1k)</text>`,
+    ].join("\n  ");
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif">`,
+    `  <rect width="${width}" height="${height}" fill="#ffffff" />`,
+    `  <text x="${padding.left}" y="24" font-size="16" font-weight="600">${escape(title)}</text>`,
+    `  <line x1="${padding.left}" y1="${padding.top + plotHeight}" x2="${padding.left + plotWidth}" y2="${padding.top + plotHeight}" stroke="#9ca3af" />`,
+    `  <line x1="${padding.left}" y1="${padding.top}" x2="${padding.left}" y2="${padding.top + plotHeight}" stroke="#9ca3af" />`,
+    `  <text x="${padding.left - 8}" y="${padding.top + 4}" font-size="12" text-anchor="end">${round(maxMb, 1)} MB</text>`,
+    `  <text x="${padding.left - 8}" y="${padding.top + plotHeight}" font-size="12" text-anchor="end">0</text>`,
+    `  <text x="${padding.left + plotWidth}" y="${height - 12}" font-size="12" text-anchor="end">${maxIteration} renders</text>`,
+    `  ${lines.join("\n  ")}`,
+    "</svg>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,24 @@
+import type { BenchTaskName } from "./types.js";
+
+export const ALL_TASKS: BenchTaskName[] = [
+  "image-buffer",
+  "image-stream",
+  "kitchen-sink",
+  "text-layout",
+  "encode-png",
+  "encode-webp",
+  "encode-svg",
+];
+
+/**
+ * Bumped when a workload starts doing different work under the same name, so history and
+ * `--compare` only line up runs of the same version. Unlisted workloads are version 1.
+ */
+const WORKLOAD_VERSIONS: Partial<Record<BenchTaskName, number>> = {
+  // 2: one layout per sample in a shared style, read back per sample (was two width-only passes).
+  "text-layout": 2,
+};
+
+export function workloadVersion(task: BenchTaskName): number {
+  return WORKLOAD_VERSIONS[task] ?? 1;
+}
@@ -0,0 +1,142 @@
+import type { BenchContext, OutputSize, TextLayoutSample } from "./types.js";
+import { formatSize, median, round, scaled } from "./utils.js";
+
+/**
+ * One `text-layout` sample as every renderer lays it out: its own block, one line (white space
+ * is kept and nothing wraps), alternating a semibold title style with a regular body style.
+ */
+export interface TextLayoutSpec {
+  text: string;
+  fontSize: number;
+  fontWeight: 400 | 600;
+  lineHeight: number;
+  color: string;
+}
+
+export interface TextLayoutRecord {
+  renderer: string;
+  size: OutputSize;
+  samples: TextLayoutSample[];
+}
+
+export function textLayoutSpecs(context: BenchContext): TextLayoutSpec[] {
+  const px = (value: number) => scaled(context, value);
+
+  return context.textSamples.map((text, index) =>
+    index % 2 === 0
+      ? { text, fontSize: px(40), fontWeight: 600, lineHeight: px(48), color: "#ffffff" }
+      : { text, fontSize: px(24), fontWeight: 400, lineHeight: px(32), color: "#e2e8f0" },
+  );
+}
+
+/** Summed sample width, the value `text-layout` reports so it stays comparable across renderers. */
+export function totalTextWidth(samples: TextLayoutSample[]): number {
+  return samples.reduce((total, sample) => total + sample.width, 0);
+}
+
+/** Baseline of a CSS line box: half the leading, then the font's ascent. */
+export function lineBoxBaseline(lineHeight: number, ascent: number, descent: number): number {
+  return (lineHeight - (ascent + descent)) / 2 + ascent;
+}
+
+function formatSample(text: string): string {
+  const short = text.length > 36 ? `${text.slice(0, 35)}…` : text;
+  return `\`${short.replaceAll("`", "'")}\``.replaceAll("|", "\\|");
+}
+
+/**
+ * Per-sample deviation from the median of every renderer, so no engine is the reference.
+ * Renderers that do not report the metric (null) are left out of the median and get no deviations.
+ */
+function deviations(records: TextLayoutRecord[], metric: (sample: TextLayoutSample) => number | null): number[][] {
+  const count = Math.min(...records.map((record) => record.samples.length));
+  const medians = Array.from({ length: count }, (_, index) =>
+    median(
+      records.map((record) => metric(record.samples[index]!)).filter((value): value is number => value !== null),
+    ),
+  );
+
+  return records.map((record) =>
+    record.samples.slice(0, count).flatMap((sample, index) => {
+      const value = metric(sample);
+      return value === null ? [] : [Math.abs(value - medians[index]!)];
+    }),
+  );
+}
+
+function formatMaxDeviation(values: number[]): string {
+  return values.length === 0 ? "-" : Math.max(...values).toFixed(2);
+}
+
+function buildSizeMarkdown(records: TextLayoutRecord[], heading: string | null): string[] {
+  const lines: string[] = [];
+  const count = Math.min(...records.map((record) => record.samples.length));
+
+  if (heading) {
+    lines.push(`### ${heading}`);
+    lines.push("");
+  }
+
+  lines.push(`| Sample | ${records.map((record) => `${record.renderer} (px)`).join(" | ")} | Spread (px) |`);
+  lines.push(`|---|${records.map(() => "---:|").join("")}---:|`);
+
+  for (let index = 0; index < count; index += 1) {
+    const widths = records.map((record) => record.samples[index]!.width);
+    lines.push(
+      `| ${formatSample(records[0]!.samples[index]!.text)} | ${widths.map((width) => width.toFixed(2)).join(" | ")} | ${(Math.max(...widths) - Math.min(...widths)).toFixed(2)} |`,
+    );
+  }
+
+  lines.push("");
+
+  const width = deviations(records, (sample) => sample.width);
+  const height = deviations(records, (sample) => sample.height);
+  const baseline = deviations(records, (sample) => sample.baseline);
+  const lineCounts = deviations(records, (sample) => sample.lines);
+
+  lines.push(
+    "| Renderer | Mean \\|Δ width\\| (px) | Max \\|Δ width\\| (px) | Max \\|Δ height\\| (px) | Max \\|Δ baseline\\| (px) | Line count mismatches |",
+  );
+  lines.push("|---|---:|---:|---:|---:|---:|");
+
+  records.forEach((record, index) => {
+    lines.push(
+      `| ${record.renderer} | ${round(width[index]!.reduce((total, value) => total + value, 0) / Math.max(1, count), 2).toFixed(2)} | ${formatMaxDeviation(width[index]!)} | ${formatMaxDeviation(height[index]!)} | ${formatMaxDeviation(baseline[index]!)} | ${lineCounts[index]!.filter((value) => value > 0).length} |`,
+    );
+  });
+
+  lines.push("");
+  return lines;
+}
+
+export function buildTextLayoutMarkdown(records: TextLayoutRecord[]): string[] {
+  const groups = new Map<string, TextLayoutRecord[]>();
+
+  for (const record of records) {
+    const key = formatSize(record.size);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+
+  const comparable = [...groups.entries()].filter(([, group]) => group.length > 1);
+
+  if (comparable.length === 0) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  lines.push("## Text Layout Agreement");
+  lines.push("");
+  lines.push(
+    "- Every renderer lays out the same `text-layout` samples, one line each, alternating semibold 40/48 px and regular 24/32 px at 1280×720 (scaled with the output). Values are logical pixels as each engine measured them.",
+  );
+  lines.push(
+    "- Width is the advance width of the line; spread is the widest minus the narrowest renderer. Δ columns compare each renderer with the per-sample median of all renderers, the baseline is measured from the top of the sample's line box, and canvas renderers lay out no box so report no height (`-`).",
+  );
+  lines.push("");
+
+  for (const [size, group] of comparable) {
+    lines.push(...buildSizeMarkdown(group, groups.size > 1 ? `text-layout @ ${size}` : null));
+  }
+
+  return lines;
+}
@@ -1,4 +1,5 @@
 import type { Readable } from "node:stream";
+import type { FontVerticalMetrics } from "./fontMetrics.js";
 
 export type BenchTaskName =
   | "image-buffer"
@@ -7,16 +8,40 @@ export type BenchTaskName =
   | "text-layout"
   | "encode-png"
   | "encode-webp"
-  | "encode-svg";
+  | "encode-svg"
+  /** Parametric scene with N elements; see `complexity.ts`. */
+  | `complexity-${number}`
+  /** Scene loaded from a `--scene` file; see `userScene.ts`. */
+  | `scene:${string}`;
+
+/** Logical output size; the rendered image is `dpr` times larger on each axis. */
+export interface OutputSize {
+  width: number;
+  height: number;
+  dpr: number;
+}
+
+/** One font file; every renderer registers it under `family` at this weight and style. */
+export interface BenchFont {
+  family: string;
+  path: string;
+  weight: number;
+  style: "normal" | "italic";
+}
 
 export interface BenchContext {
+  /** Logical (CSS-pixel) size the scenes lay out against. */
   width: number;
   height: number;
+  /** Device pixel ratio: physical pixels per logical pixel. */
+  dpr: number;
+  /** Factor from the 1280×720 reference layout to `width`×`height` (fits the smaller axis). */
+  scale: number;
+  /** Family the built-in scenes draw text with. */
   fontFamily: string;
-  fontPaths: {
-    regular: string;
-    semibold: string;
-  };
+  fonts: BenchFont[];
+  /** Vertical metrics of each font file, by path; the scene compilers place text from them. */
+  fontMetrics: Record<string, FontVerticalMetrics>;
   buffers: {
     background: Buffer;
     avatar: Buffer;
@@ -28,11 +53,33 @@ export interface BenchContext {
     badge: string;
   };
   textSamples: string[];
+  /** `--scene` files; every process loads them lazily when it first runs a `scene:` task. */
+  scenePaths: string[];
+  /** WebP quality (1-100) for encoders that take one; null keeps each encoder's default. */
+  webpQuality: number | null;
   createBackgroundStream: () => Readable;
   createAvatarStream: () => Readable;
 }
 
-export type TaskOutput =
+/** The serializable part of a `BenchContext` (no buffers, data URIs or stream factories). */
+export type BenchContextBase = Pick<
+  BenchContext,
+  "width" | "height" | "dpr" | "fontFamily" | "fonts" | "fontMetrics" | "textSamples" | "scenePaths" | "webpQuality"
+>;
+
+/** Layout of one `text-layout` sample, in logical pixels, as the renderer's engine measured it. */
+export interface TextLayoutSample {
+  text: string;
+  /** Advance width of the widest line. */
+  width: number;
+  /** Height of the sample's layout box; null for canvas, which measures text but lays out no box. */
+  height: number | null;
+  lines: number;
+  /** Distance from the top of the sample's box to the first line's alphabetic baseline. */
+  baseline: number;
+}
+
+export type TaskOutput = (
   | {
       kind: "image";
       bytes: number;
@@ -42,29 +89,92 @@ export type TaskOutput =
   | {
       kind: "metric";
       value: number;
-    };
+      /** Per-sample layout; `text-layout` sets it and reports the summed width as `value`. */
+      textLayout?: TextLayoutSample[];
+    }
+) & {
+  /** Time spent outside the renderer itself (worker dispatch and buffer transfer). */
+  overheadMs?: number;
+  /**
+   * Time `run` spent on benchmark bookkeeping rather than rendering (e.g. reading the text
+   * layout back out of an SVG); it is taken off the measured latency.
+   */
+  harnessMs?: number;
+};
+
+export interface RendererPrepareDetails {
+  /** Per-worker module load + `prepare` time for worker-pool renderers. */
+  workerPrepareMs: number[];
+}
 
 export interface BenchRenderer {
   name: string;
-  prepare?: (context: BenchContext) => Promise<void>;
+  prepare?: (context: BenchContext) => Promise<void | RendererPrepareDetails>;
   run: (context: BenchContext, task: BenchTaskName) => Promise<TaskOutput>;
+  /** Releases resources that would keep the process alive (worker threads). */
+  dispose?: () => Promise<void>;
+}
+
+export interface RendererPrepareStats {
+  renderer: string;
+  prepareMs: number;
+  workerPrepareMs?: number[];
 }
 
 export interface BenchCaseStats {
   renderer: string;
   task: BenchTaskName;
+  /** See `workloadVersion`; cases only compare with runs of the same version. */
+  workloadVersion: number;
+  width: number;
+  height: number;
+  dpr: number;
   iterations: number;
   warmup: number;
+  stopReason: "fixed" | "target-ci" | "time-budget" | "max-iterations" | "soak";
   avgMs: number;
+  medianMs: number;
   p95Ms: number;
+  p99Ms: number;
   minMs: number;
   maxMs: number;
+  stdDevMs: number;
+  madMs: number;
+  cv: number;
+  ci95LowMs: number;
+  ci95HighMs: number;
+  highVariance: boolean;
+  /** Peaks from the background memory sampler, relative to the pre-sampling baseline. */
   rssPeakDeltaMb: number;
   heapPeakDeltaMb: number;
   heapEndDeltaMb: number;
+  externalPeakDeltaMb: number;
+  arrayBuffersPeakDeltaMb: number;
+  /** Memory samples taken during the case (main thread and sampler worker combined). */
+  memorySamples: number;
+  /** Collections observed while sampling (`gc` performance entries). */
+  gcMinorCount: number;
+  gcMajorCount: number;
+  gcPauseMs: number;
+  /** Total GC pause as a fraction of summed render latency. */
+  gcPauseShare: number;
+  allocatedBytesPerRender: number;
+  /** Event-loop delay percentiles observed while the case was sampled. */
+  eventLoopDelayP50Ms: number;
+  eventLoopDelayP99Ms: number;
+  eventLoopDelayMaxMs: number;
+  /** Process CPU time per measured iteration. */
+  cpuUserMs: number;
+  cpuSystemMs: number;
+  /** (user + system CPU time) / wall time; above 1 means work ran on other threads. */
+  cpuUtilization: number;
+  /** Average worker dispatch + transfer time per render; only set for worker-pool renderers. */
+  dispatchOverheadMs?: number;
   outputKind: TaskOutput["kind"];
   outputAverage: number;
   outputUnit: "bytes" | "value";
+  /** Format and size every image output was validated as (e.g. `PNG 1280×720`); null for metrics. */
+  outputValidation: string | null;
 }
 
 export interface BenchCaseSkip {
@@ -72,3 +182,147 @@ export interface BenchCaseSkip {
   task: BenchTaskName;
   reason: string;
 }
+
+/** A case whose output failed validation; it has no timings because they would be meaningless. */
+export interface BenchCaseFailure {
+  renderer: string;
+  task: BenchTaskName;
+  width: number;
+  height: number;
+  dpr: number;
+  reason: string;
+}
+
+export interface SamplingOptions {
+  iterations: number;
+  warmup: number;
+  maxCv: number;
+  /** Relative 95% CI half-width (fraction of the mean) at which adaptive sampling stops. */
+  targetCi: number | null;
+  /** Per-case sampling budget; enables adaptive sampling when set. */
+  maxTimeMs: number | null;
+  /** Concurrency levels for the throughput sweep; null disables it. */
+  concurrency: number[] | null;
+  /** Replaces fixed/adaptive sampling with a long memory-tracking run; null disables it. */
+  soak: SoakOptions | null;
+  /** Background memory polling interval; 0 samples only after each render. */
+  memorySampleIntervalMs: number;
+  saveImages: boolean;
+}
+
+export interface SoakOptions {
+  /** Exactly one of `iterations` and `durationMs` is set. */
+  iterations: number | null;
+  durationMs: number | null;
+  sampleIntervalMs: number;
+  /** Growth (MB per 1k renders) above which a memory series is flagged. */
+  thresholdMbPer1k: number;
+}
+
+export interface SoakMemorySample {
+  iteration: number;
+  elapsedMs: number;
+  rssMb: number;
+  heapUsedMb: number;
+  externalMb: number;
+  arrayBuffersMb: number;
+}
+
+export interface SoakStats {
+  iterations: number;
+  durationMs: number;
+  thresholdMbPer1k: number;
+  /** Linear-regression slope per memory series, fitted after the initial ramp-up. */
+  growth: Record<
+    "rssMb" | "heapUsedMb" | "externalMb" | "arrayBuffersMb",
+    {
+      mbPer1kRenders: number;
+      r2: number;
+    }
+  >;
+  flagged: Array<"rssMb" | "heapUsedMb" | "externalMb" | "arrayBuffersMb">;
+  samples: SoakMemorySample[];
+}
+
+export interface BenchCaseSample {
+  format: "png" | "webp" | "svg";
+  buffer: Buffer;
+}
+
+export interface ThroughputStats {
+  renderer: string;
+  task: BenchTaskName;
+  width: number;
+  height: number;
+  dpr: number;
+  concurrency: number;
+  operations: number;
+  elapsedMs: number;
+  opsPerSec: number;
+  /** Per-render latency while `concurrency` renders were in flight. */
+  avgMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  p99Ms: number;
+  maxMs: number;
+  /** (ops/sec at this concurrency / ops/sec at concurrency 1) / concurrency. */
+  scalingEfficiency: number;
+}
+
+export interface BenchCaseResult {
+  stats: BenchCaseStats;
+  sample?: BenchCaseSample;
+  textLayout?: TextLayoutSample[];
+  throughput?: ThroughputStats[];
+  soak?: SoakStats;
+}
+
+export type BenchCaseOutcome =
+  | {
+      kind: "result";
+      result: BenchCaseResult;
+    }
+  | {
+      kind: "skipped";
+      skip: BenchCaseSkip;
+    }
+  | {
+      kind: "failed";
+      failure: BenchCaseFailure;
+    };
+
+export interface ColdStartJob {
+  renderer: string;
+  task: BenchTaskName;
+}
+
+/** Timings from one freshly spawned process, in milliseconds unless noted. */
+export interface ColdStartSample {
+  /** Node bootstrap until the child entry starts executing. */
+  bootMs: number;
+  /** Reading fixtures and fonts into a `BenchContext`. */
+  contextMs: number;
+  /** Dynamic import of the renderer module and its image library. */
+  moduleLoadMs: number;
+  /** `renderer.prepare` (font registration, engine creation). */
+  prepareMs: number;
+  /** The first `renderer.run` call. */
+  firstRenderMs: number;
+  /** Process start until the first output is ready. */
+  timeToFirstImageMs: number;
+  rssMb: number;
+}
+
+export type ColdStartMessage =
+  | {
+      type: "sample";
+      sample: ColdStartSample;
+    }
+  | {
+      type: "skipped";
+      reason: string;
+    }
+  | {
+      type: "error";
+      message: string;
+    };
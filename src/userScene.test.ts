@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import type { BenchFont } from "./types.js";
+import { checkUserSceneFonts, loadUserScene } from "./userScene.js";
+
+const rect = { type: "rect", x: 0, y: 0, width: 10, height: 10, fill: "#0f172a" };
+const gradient = { type: "gradient", x: 0, y: 0, width: 10, height: 10 };
+const text = { type: "text", x: 0, y: 0, text: "Hi", fontSize: 12, fontWeight: 400, color: "rgba(255, 255, 255, 0.8)" };
+
+describe("loadUserScene", () => {
+  let dir = "";
+
+  async function writeScene(name: string, scene: unknown): Promise<string> {
+    const path = join(dir, name);
+    await writeFile(path, JSON.stringify(scene));
+    return path;
+  }
+
+  before(async () => {
+    dir = await mkdtemp(join(os.tmpdir(), "bench-scene-"));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("loads a layout and lists the font families its text nodes name", async () => {
+    const path = await writeScene("card.json", {
+      background: "hsl(220, 30%, 10%)",
+      nodes: [
+        rect,
+        { type: "clip", x: 0, y: 0, width: 10, height: 10, radius: 2, children: [{ ...text, fontFamily: "Mono" }] },
+      ],
+    });
+    const scene = await loadUserScene(path);
+
+    assert.equal(scene.kind, "layout");
+    assert.equal(scene.name, "card");
+    assert.deepEqual(scene.kind === "layout" ? scene.fontFamilies : null, ["Mono"]);
+  });
+
+  it("rejects colors the renderers would not parse alike", async () => {
+    const named = await writeScene("named.json", { nodes: [{ ...rect, fill: "navy" }] });
+    const missing = await writeScene("missing.json", { nodes: [{ ...text, color: undefined }] });
+    const background = await writeScene("background.json", { background: "#12345", nodes: [rect] });
+
+    await assert.rejects(loadUserScene(named), /rect "fill" must be a hex/);
+    await assert.rejects(loadUserScene(missing), /text "color" must be a hex/);
+    await assert.rejects(loadUserScene(background), /"background" must be a hex/);
+  });
+
+  it("checks every gradient stop", async () => {
+    const color = await writeScene("stop-color.json", {
+      nodes: [{ ...gradient, stops: [{ offset: 0, color: "#000" }, { offset: 1, color: "red" }] }],
+    });
+    const order = await writeScene("stop-order.json", {
+      nodes: [{ ...gradient, stops: [{ offset: 0.6, color: "#000" }, { offset: 0.2, color: "#fff" }] }],
+    });
+
+    await assert.rejects(loadUserScene(color), /stops\[1\]\.color must be a hex/);
+    await assert.rejects(loadUserScene(order), /stops\[1\]\.offset must be a number from 0 to 1/);
+  });
+});
+
+describe("checkUserSceneFonts", () => {
+  const fonts: BenchFont[] = [{ family: "Inter", path: "Inter-Regular.ttf", weight: 400, style: "normal" }];
+  const scene = (fontFamilies: string[]) => ({
+    kind: "layout" as const,
+    name: "card",
+    path: "card.json",
+    fontFamilies,
+    build: () => {
+      throw new Error("not built");
+    },
+  });
+
+  it("passes when every family is loaded", () => {
+    assert.doesNotThrow(() => checkUserSceneFonts([scene(["Inter"])], fonts));
+  });
+
+  it("names the families no font loads", () => {
+    assert.throws(
+      () => checkUserSceneFonts([scene(["Inter", "Mono"])], fonts),
+      /card\.json uses font families no --font loads: Mono$/,
+    );
+  });
+});
@@ -0,0 +1,345 @@
+import { readFile } from "node:fs/promises";
+import { basename, dirname, extname, resolve } from "node:path";
+import type { ReactElement } from "react";
+import { DEFAULT_OUTPUT_SIZE } from "./context.js";
+import { importSourceModule, toPngDataUri } from "./io.js";
+import type { Scene, SceneImageSource, SceneNode } from "./scene.js";
+import type { BenchContext, BenchFont, BenchTaskName } from "./types.js";
+
+/** Props a component scene receives; images are the fixtures as data URIs. */
+export interface SceneComponentProps {
+  width: number;
+  height: number;
+  /** Factor from 1280×720 to the output size, for components that scale like the built-in scenes. */
+  scale: number;
+  fontFamily: string;
+  textSamples: string[];
+  images: BenchContext["dataUris"];
+}
+
+export type SceneComponent = (props: SceneComponentProps) => ReactElement;
+
+/**
+ * A scene loaded from `--scene`. Layouts use the declarative node format and run on every
+ * renderer; components are JSX and only run on satori and takumi.
+ */
+export type UserScene =
+  | {
+      kind: "layout";
+      name: string;
+      path: string;
+      /** Builds the scene for one output size. */
+      build: (context: BenchContext) => Scene;
+      /** `fontFamily` values of its text nodes; each must name a family loaded with `--font`. */
+      fontFamilies: string[];
+    }
+  | {
+      kind: "component";
+      name: string;
+      path: string;
+      component: SceneComponent;
+    };
+
+interface SceneFile {
+  name?: string;
+  /** Size the node coordinates are laid out for; scaled uniformly to fit the output. */
+  width?: number;
+  height?: number;
+  background?: string;
+  /** Image keys to paths relative to the scene file. */
+  images?: Record<string, string>;
+  nodes: SceneNode[];
+}
+
+const COMPONENT_EXTENSIONS = new Set([".js", ".mjs", ".jsx", ".ts", ".tsx"]);
+const NODE_FIELDS: Record<SceneNode["type"], string[]> = {
+  image: ["x", "y", "width", "height"],
+  rect: ["x", "y", "width", "height"],
+  roundedRect: ["x", "y", "width", "height", "radius"],
+  circle: ["cx", "cy", "radius"],
+  gradient: ["x", "y", "width", "height"],
+  text: ["x", "y", "fontSize"],
+  clip: ["x", "y", "width", "height", "radius"],
+};
+
+const COLOR_FIELDS: Partial<Record<SceneNode["type"], string>> = {
+  rect: "fill",
+  roundedRect: "fill",
+  circle: "fill",
+  text: "color",
+};
+/** Hex colors and `rgb[a]()`/`hsl[a]()`, which every renderer parses the same way; names are not accepted. */
+const COLOR_PATTERN = /^(#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})|(rgba?|hsla?)\([^()]*\)|transparent)$/i;
+
+const loaded = new Map<string, Promise<UserScene>>();
+
+export function userSceneTask(name: string): BenchTaskName {
+  return `scene:${name}`;
+}
+
+/** Scene name of a `scene:<name>` task, or null for built-in tasks. */
+export function userSceneName(task: BenchTaskName): string | null {
+  return task.startsWith("scene:") ? task.slice("scene:".length) : null;
+}
+
+function defaultSceneName(path: string): string {
+  return basename(path, extname(path));
+}
+
+function validateColor(value: unknown, where: string): void {
+  if (typeof value !== "string" || !COLOR_PATTERN.test(value.trim())) {
+    throw new Error(`${where} must be a hex, rgb(a) or hsl(a) color, got ${JSON.stringify(value)}`);
+  }
+}
+
+function validateGradientStops(stops: unknown, where: string): void {
+  if (!Array.isArray(stops) || stops.length < 2) {
+    throw new Error(`${where}: gradient needs at least two stops`);
+  }
+
+  let previous = 0;
+
+  stops.forEach((stop: unknown, index) => {
+    const { offset, color } = (typeof stop === "object" && stop !== null ? stop : {}) as Record<string, unknown>;
+
+    if (typeof offset !== "number" || !(offset >= previous && offset <= 1)) {
+      throw new Error(`${where}: stops[${index}].offset must be a number from 0 to 1, not below the previous stop's`);
+    }
+
+    validateColor(color, `${where}: stops[${index}].color`);
+    previous = offset;
+  });
+}
+
+function validateNode(value: unknown, where: string): SceneNode {
+  const node = value as Partial<SceneNode> & Record<string, unknown>;
+
+  if (typeof node !== "object" || node === null || typeof node.type !== "string" || !(node.type in NODE_FIELDS)) {
+    throw new Error(`${where}: type must be one of ${Object.keys(NODE_FIELDS).join(", ")}`);
+  }
+
+  for (const field of NODE_FIELDS[node.type]) {
+    if (typeof node[field] !== "number" || !Number.isFinite(node[field])) {
+      throw new Error(`${where}: ${node.type} needs a numeric "${field}"`);
+    }
+  }
+
+  const colorField = COLOR_FIELDS[node.type];
+
+  if (colorField !== undefined) {
+    validateColor(node[colorField], `${where}: ${node.type} "${colorField}"`);
+  }
+
+  if (node.type === "image" && typeof node.image !== "string") {
+    throw new Error(`${where}: image needs an "image" key`);
+  }
+
+  if (node.type === "text") {
+    if (typeof node.text !== "string" || !Number.isInteger(node.fontWeight) || node.fontWeight! < 1 || node.fontWeight! > 1000) {
+      throw new Error(`${where}: text needs a "text" string and an integer fontWeight between 1 and 1000`);
+    }
+
+    if (node.fontStyle !== undefined && node.fontStyle !== "normal" && node.fontStyle !== "italic") {
+      throw new Error(`${where}: text fontStyle must be "normal" or "italic"`);
+    }
+
+    if (node.fontFamily !== undefined && typeof node.fontFamily !== "string") {
+      throw new Error(`${where}: text fontFamily must be a string`);
+    }
+  }
+
+  if (node.type === "gradient") {
+    validateGradientStops(node.stops, where);
+  }
+
+  if (node.type === "clip") {
+    if (!Array.isArray(node.children)) {
+      throw new Error(`${where}: clip needs a "children" array`);
+    }
+
+    node.children.forEach((child, index) => validateNode(child, `${where}.children[${index}]`));
+  }
+
+  return node as SceneNode;
+}
+
+function textFontFamilies(nodes: SceneNode[]): string[] {
+  return nodes.flatMap((node) => {
+    if (node.type === "clip") {
+      return textFontFamilies(node.children);
+    }
+
+    return node.type === "text" && node.fontFamily !== undefined ? [node.fontFamily] : [];
+  });
+}
+
+function scaleNode(node: SceneNode, factor: number): SceneNode {
+  const px = (value: number) => Math.round(value * factor);
+
+  switch (node.type) {
+    case "circle":
+      return { ...node, cx: px(node.cx), cy: px(node.cy), radius: px(node.radius) };
+    case "text":
+      return { ...node, x: px(node.x), y: px(node.y), fontSize: px(node.fontSize) };
+    case "clip":
+      return {
+        ...node,
+        x: px(node.x),
+        y: px(node.y),
+        width: px(node.width),
+        height: px(node.height),
+        radius: px(node.radius),
+        children: node.children.map((child) => scaleNode(child, factor)),
+      };
+    case "roundedRect":
+      return { ...node, x: px(node.x), y: px(node.y), width: px(node.width), height: px(node.height), radius: px(node.radius) };
+    default:
+      return { ...node, x: px(node.x), y: px(node.y), width: px(node.width), height: px(node.height) };
+  }
+}
+
+async function loadLayoutScene(path: string): Promise<UserScene> {
+  let file: SceneFile;
+
+  try {
+    file = JSON.parse(await readFile(path, "utf8")) as SceneFile;
+  } catch (error) {
+    throw new Error(`Could not read scene ${path}: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(file.nodes)) {
+    throw new Error(`Scene ${path} needs a "nodes" array`);
+  }
+
+  const nodes = file.nodes.map((node, index) => validateNode(node, `${path}: nodes[${index}]`));
+
+  if (file.background !== undefined) {
+    validateColor(file.background, `${path}: "background"`);
+  }
+
+  const images: Record<string, SceneImageSource> = {};
+
+  for (const [key, imagePath] of Object.entries(file.images ?? {})) {
+    const buffer = await readFile(resolve(dirname(path), imagePath));
+    images[key] = { buffer, dataUri: toPngDataUri(buffer) };
+  }
+
+  const designWidth = file.width ?? DEFAULT_OUTPUT_SIZE.width;
+  const designHeight = file.height ?? DEFAULT_OUTPUT_SIZE.height;
+
+  return {
+    kind: "layout",
+    name: file.name ?? defaultSceneName(path),
+    path,
+    fontFamilies: [...new Set(textFontFamilies(nodes))],
+    build: (context) => {
+      const factor = Math.min(context.width / designWidth, context.height / designHeight);
+
+      return {
+        width: context.width,
+        height: context.height,
+        background: file.background ?? "#000000",
+        nodes: factor === 1 ? nodes : nodes.map((node) => scaleNode(node, factor)),
+        images,
+      };
+    },
+  };
+}
+
+async function loadComponentScene(path: string): Promise<UserScene> {
+  // Bare imports such as `react/jsx-runtime` resolve against this project; relative imports are
+  // not rewritten, so a component scene should be a single file.
+  const module = await importSourceModule(path);
+  const component = module.default;
+
+  if (typeof component !== "function") {
+    throw new Error(`Scene ${path} must default-export a component`);
+  }
+
+  return {
+    kind: "component",
+    name: typeof module.name === "string" ? module.name : defaultSceneName(path),
+    path,
+    component: component as SceneComponent,
+  };
+}
+
+/** Loads a scene file once per process; workers and isolated children reload it by path. */
+export function loadUserScene(path: string): Promise<UserScene> {
+  const absolute = resolve(path);
+  let scene = loaded.get(absolute);
+
+  if (!scene) {
+    const extension = extname(absolute);
+
+    if (extension === ".json") {
+      scene = loadLayoutScene(absolute);
+    } else if (COMPONENT_EXTENSIONS.has(extension)) {
+      scene = loadComponentScene(absolute);
+    } else {
+      scene = Promise.reject(new Error(`Unsupported scene file ${path}: use .json or a JS/TS(X) module`));
+    }
+
+    loaded.set(absolute, scene);
+  }
+
+  return scene;
+}
+
+export async function loadUserScenes(paths: string[]): Promise<UserScene[]> {
+  const scenes = await Promise.all(paths.map((path) => loadUserScene(path)));
+  const names = new Set<string>();
+
+  for (const scene of scenes) {
+    if (names.has(scene.name)) {
+      throw new Error(`Duplicate scene name "${scene.name}" (${scene.path})`);
+    }
+
+    names.add(scene.name);
+  }
+
+  return scenes;
+}
+
+/**
+ * Fails before any renderer runs when a layout names a font family no `--font` loads, which
+ * each renderer would otherwise replace with a fallback of its own.
+ */
+export function checkUserSceneFonts(scenes: UserScene[], fonts: BenchFont[]): void {
+  for (const scene of scenes) {
+    const families = scene.kind === "layout" ? scene.fontFamilies : [];
+    const missing = families.filter((family) => !fonts.some((font) => font.family === family));
+
+    if (missing.length > 0) {
+      throw new Error(`Scene ${scene.path} uses font families no --font loads: ${missing.join(", ")}`);
+    }
+  }
+}
+
+/** The user scene a `scene:<name>` task runs, or null for built-in tasks. */
+export async function findUserScene(context: BenchContext, task: BenchTaskName): Promise<UserScene | null> {
+  const name = userSceneName(task);
+
+  if (name === null) {
+    return null;
+  }
+
+  const scene = (await loadUserScenes(context.scenePaths)).find((entry) => entry.name === name);
+
+  if (!scene) {
+    throw new Error(`No --scene file defines "${name}"`);
+  }
+
+  return scene;
+}
+
+export function sceneComponentProps(context: BenchContext): SceneComponentProps {
+  return {
+    width: context.width,
+    height: context.height,
+    scale: context.scale,
+    fontFamily: context.fontFamily,
+    textSamples: context.textSamples,
+    images: context.dataUris,
+  };
+}
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { bootstrapMeanCi, mean, median, medianAbsoluteDeviation, percentile } from "./utils.js";
+
+describe("median", () => {
+  it("takes the middle value of an odd count", () => {
+    assert.equal(median([5, 1, 3]), 3);
+  });
+
+  it("averages the two middle values of an even count", () => {
+    assert.equal(median([4, 1, 3, 2]), 2.5);
+  });
+
+  it("is zero without values", () => {
+    assert.equal(median([]), 0);
+  });
+
+  it("does not reorder its input", () => {
+    const values = [3, 1, 2];
+    median(values);
+    assert.deepEqual(values, [3, 1, 2]);
+  });
+});
+
+describe("medianAbsoluteDeviation", () => {
+  it("is the median distance from the median", () => {
+    // Median 3; distances 2, 1, 0, 1, 97.
+    assert.equal(medianAbsoluteDeviation([1, 2, 3, 4, 100]), 1);
+  });
+
+  it("is zero for constant samples", () => {
+    assert.equal(medianAbsoluteDeviation([7, 7, 7]), 0);
+  });
+});
+
+describe("percentile", () => {
+  it("uses the nearest rank", () => {
+    const values = Array.from({ length: 100 }, (_, index) => index + 1);
+    assert.equal(percentile(values, 0.95), 95);
+    assert.equal(percentile(values, 1), 100);
+    assert.equal(percentile(values, 0), 1);
+  });
+});
+
+describe("bootstrapMeanCi", () => {
+  const samples = [10, 12, 11, 13, 9, 10, 14, 11, 12, 10];
+
+  it("is reproducible for the same seed", () => {
+    assert.deepEqual(bootstrapMeanCi(samples, 0.95, 500, 42), bootstrapMeanCi(samples, 0.95, 500, 42));
+  });
+
+  it("changes with the seed", () => {
+    assert.notDeepEqual(bootstrapMeanCi(samples, 0.95, 500, 1), bootstrapMeanCi(samples, 0.95, 500, 2));
+  });
+
+  it("brackets the mean within the sample range", () => {
+    const { low, high } = bootstrapMeanCi(samples);
+    assert.ok(low <= mean(samples) && mean(samples) <= high);
+    assert.ok(low >= Math.min(...samples) && high <= Math.max(...samples));
+  });
+
+  it("narrows as the confidence drops", () => {
+    const wide = bootstrapMeanCi(samples, 0.99);
+    const narrow = bootstrapMeanCi(samples, 0.5);
+    assert.ok(narrow.high - narrow.low < wide.high - wide.low);
+  });
+
+  it("collapses to the value with fewer than two samples", () => {
+    assert.deepEqual(bootstrapMeanCi([4]), { low: 4, high: 4 });
+  });
+});
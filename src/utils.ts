@@ -1,15 +1,26 @@
 import { Readable } from "node:stream";
-import { toPngDataUri } from "./io.js";
+import type { BenchContext, BenchFont, OutputSize } from "./types.js";
 
 export class UnsupportedTaskError extends Error {
+  readonly detail: string;
+
   constructor(task: string, detail: string) {
     super(`${task}: ${detail}`);
     this.name = "UnsupportedTaskError";
+    this.detail = detail;
   }
 }
 
-export function toDataUri(buffer: Buffer): string {
-  return toPngDataUri(buffer);
+/** Identity of a font set, so renderers re-register fonts only when the set changes. */
+export function fontSetKey(fonts: BenchFont[]): string {
+  return JSON.stringify(fonts.map((font) => [font.family, font.path, font.weight, font.style]));
+}
+
+export function toSafeFileName(input: string): string {
+  return input
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
 }
 
 export async function streamToBuffer(stream: Readable): Promise<Buffer> {
@@ -40,6 +51,127 @@ export function percentile(values: number[], fraction: number): number {
   return sorted[index] ?? 0;
 }
 
+export function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  if (sorted.length % 2 === 0) {
+    return ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2;
+  }
+
+  return sorted[middle] ?? 0;
+}
+
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+
+  const average = mean(values);
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+export function medianAbsoluteDeviation(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+
+  const center = median(values);
+  return median(values.map((value) => Math.abs(value - center)));
+}
+
+export function coefficientOfVariation(values: number[]): number {
+  const average = mean(values);
+
+  if (average === 0) {
+    return 0;
+  }
+
+  return standardDeviation(values) / average;
+}
+
+/**
+ * Deterministic PRNG (mulberry32) so bootstrap intervals are reproducible between runs
+ * over the same samples.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
+
+/**
+ * Percentile bootstrap confidence interval for the mean. Past 10k samples (soak runs) the
+ * bootstrap is O(resamples * n) for no practical gain, so the 95% interval falls back to the
+ * normal approximation.
+ */
+export function bootstrapMeanCi(
+  values: number[],
+  confidence = 0.95,
+  resamples = 2_000,
+  seed = 0x5eed,
+): { low: number; high: number } {
+  if (values.length < 2) {
+    const value = mean(values);
+    return { low: value, high: value };
+  }
+
+  if (values.length > 10_000 && confidence === 0.95) {
+    const average = mean(values);
+    const halfWidth = (1.96 * standardDeviation(values)) / Math.sqrt(values.length);
+    return { low: average - halfWidth, high: average + halfWidth };
+  }
+
+  const random = createRandom(seed);
+  const means: number[] = [];
+
+  for (let resample = 0; resample < resamples; resample += 1) {
+    let sum = 0;
+
+    for (let index = 0; index < values.length; index += 1) {
+      sum += values[Math.floor(random() * values.length)] ?? 0;
+    }
+
+    means.push(sum / values.length);
+  }
+
+  const tail = (1 - confidence) / 2;
+  return {
+    low: percentile(means, tail),
+    high: percentile(means, 1 - tail),
+  };
+}
+
+/** Scales a length from the 1280×720 reference layout to the context's output size. */
+export function scaled(context: Pick<BenchContext, "scale">, value: number): number {
+  return Math.round(value * context.scale);
+}
+
+/** Size of the rendered image in device pixels. */
+export function physicalSize(context: Pick<BenchContext, "width" | "height" | "dpr">): { width: number; height: number } {
+  return { width: Math.round(context.width * context.dpr), height: Math.round(context.height * context.dpr) };
+}
+
+export function formatSize(size: OutputSize): string {
+  return size.dpr === 1 ? `${size.width}x${size.height}` : `${size.width}x${size.height}@${size.dpr}x`;
+}
+
+export function round(value: number, digits = 3): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
 export function formatMb(bytes: number): number {
   return bytes / (1024 * 1024);
 }
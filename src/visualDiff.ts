@@ -0,0 +1,333 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import { Resvg } from "@resvg/resvg-js";
+import type { BenchFont, BenchTaskName } from "./types.js";
+import { round } from "./utils.js";
+
+/** A channel differing by more than this (0-255) marks the pixel as different. */
+export const DIFF_PIXEL_THRESHOLD = 16;
+
+/** SSIM below this is flagged: the renderer drew something visibly different. */
+export const SSIM_MISMATCH_THRESHOLD = 0.9;
+
+/** SSIM statistics are taken over square windows of this edge, stepped by half of it. */
+const SSIM_WINDOW = 8;
+
+export interface RasterImage {
+  width: number;
+  height: number;
+  /** RGBA, composited onto white so transparent outputs compare by what a viewer sees. */
+  data: Uint8ClampedArray;
+}
+
+export interface VisualDiffImage {
+  /** Report label of the renderer (with the size when several sizes ran). */
+  renderer: string;
+  /** Label of the reference renderer's image for the same size. */
+  reference: string;
+  task: BenchTaskName;
+  format: "png" | "webp" | "svg";
+  path: string;
+}
+
+export interface VisualDiffResult {
+  renderer: string;
+  reference: string;
+  task: BenchTaskName;
+  /** Null when the images are pixel-identical (PSNR is infinite). */
+  psnrDb: number | null;
+  ssim: number;
+  /** Fraction of pixels where any channel differs by more than `DIFF_PIXEL_THRESHOLD`. */
+  differingPixels: number;
+  /** True when the candidate had a different size and was scaled to the reference's. */
+  resized: boolean;
+  heatmapPath: string;
+}
+
+export interface PixelComparison {
+  psnrDb: number | null;
+  ssim: number;
+  differingPixels: number;
+  /** Largest channel difference per pixel. */
+  magnitude: Uint8Array;
+}
+
+/**
+ * Decodes an encoded output to RGBA at `size` (or its own size). PNG and WebP go through
+ * @napi-rs/canvas; SVG is rasterized by resvg with the benchmark fonts.
+ */
+export async function decodeImage(
+  encoded: Buffer,
+  format: VisualDiffImage["format"],
+  fonts: BenchFont[],
+  size?: { width: number; height: number },
+): Promise<RasterImage> {
+  if (format === "svg") {
+    const resvg = new Resvg(encoded, {
+      fitTo: size ? { mode: "width", value: size.width } : { mode: "original" },
+      font: {
+        loadSystemFonts: false,
+        fontFiles: fonts.map((font) => font.path),
+        defaultFontFamily: fonts[0]?.family,
+      },
+    });
+    return decodeImage(Buffer.from(resvg.render().asPng()), "png", fonts, size);
+  }
+
+  const image = await loadImage(encoded);
+  const width = size?.width ?? image.width;
+  const height = size?.height ?? image.height;
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+
+  return { width, height, data: ctx.getImageData(0, 0, width, height).data };
+}
+
+function luminance(image: RasterImage): Float64Array {
+  const values = new Float64Array(image.width * image.height);
+
+  for (let index = 0; index < values.length; index += 1) {
+    const offset = index * 4;
+    values[index] = 0.299 * image.data[offset]! + 0.587 * image.data[offset + 1]! + 0.114 * image.data[offset + 2]!;
+  }
+
+  return values;
+}
+
+/**
+ * Mean SSIM of the luminance over `SSIM_WINDOW`-pixel windows at half-window steps, with
+ * the usual constants for 8-bit data. Uniform windows instead of a Gaussian keep it fast on
+ * 4K outputs; scores are comparable between renderers, not with other SSIM tools.
+ */
+function structuralSimilarity(reference: RasterImage, candidate: RasterImage): number {
+  const left = luminance(reference);
+  const right = luminance(candidate);
+  const { width, height } = reference;
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+  const window = Math.min(SSIM_WINDOW, width, height);
+  const step = Math.max(1, window / 2);
+  const count = window * window;
+  let total = 0;
+  let windows = 0;
+
+  for (let top = 0; top + window <= height; top += step) {
+    for (let leftEdge = 0; leftEdge + window <= width; leftEdge += step) {
+      let sumX = 0;
+      let sumY = 0;
+      let sumXX = 0;
+      let sumYY = 0;
+      let sumXY = 0;
+
+      for (let y = top; y < top + window; y += 1) {
+        for (let x = leftEdge; x < leftEdge + window; x += 1) {
+          const a = left[y * width + x]!;
+          const b = right[y * width + x]!;
+          sumX += a;
+          sumY += b;
+          sumXX += a * a;
+          sumYY += b * b;
+          sumXY += a * b;
+        }
+      }
+
+      const meanX = sumX / count;
+      const meanY = sumY / count;
+      const varianceX = sumXX / count - meanX * meanX;
+      const varianceY = sumYY / count - meanY * meanY;
+      const covariance = sumXY / count - meanX * meanY;
+
+      total +=
+        ((2 * meanX * meanY + c1) * (2 * covariance + c2)) /
+        ((meanX * meanX + meanY * meanY + c1) * (varianceX + varianceY + c2));
+      windows += 1;
+    }
+  }
+
+  return windows === 0 ? 1 : total / windows;
+}
+
+/** PSNR over RGB, SSIM over luminance and the share of visibly differing pixels. */
+export function comparePixels(reference: RasterImage, candidate: RasterImage): PixelComparison {
+  if (reference.width !== candidate.width || reference.height !== candidate.height) {
+    throw new Error(
+      `Cannot compare ${candidate.width}x${candidate.height} against ${reference.width}x${reference.height}`,
+    );
+  }
+
+  const pixels = reference.width * reference.height;
+  const magnitude = new Uint8Array(pixels);
+  let squaredError = 0;
+  let differing = 0;
+
+  for (let index = 0; index < pixels; index += 1) {
+    let largest = 0;
+
+    for (let channel = 0; channel < 3; channel += 1) {
+      const delta = Math.abs(reference.data[index * 4 + channel]! - candidate.data[index * 4 + channel]!);
+      squaredError += delta * delta;
+      largest = Math.max(largest, delta);
+    }
+
+    magnitude[index] = largest;
+
+    if (largest > DIFF_PIXEL_THRESHOLD) {
+      differing += 1;
+    }
+  }
+
+  const mse = squaredError / (pixels * 3);
+
+  return {
+    psnrDb: mse === 0 ? null : round(10 * Math.log10((255 * 255) / mse), 2),
+    ssim: round(structuralSimilarity(reference, candidate), 4),
+    differingPixels: differing / pixels,
+    magnitude,
+  };
+}
+
+/**
+ * Decodes `encoded` and compares it with `reference`, scaling it to the reference's size
+ * first when the two differ (e.g. an SVG without explicit dimensions).
+ */
+export async function compareWithRaster(
+  reference: RasterImage,
+  encoded: Buffer,
+  format: VisualDiffImage["format"],
+  fonts: BenchFont[],
+): Promise<{ comparison: PixelComparison; resized: boolean }> {
+  const ownSize = await decodeImage(encoded, format, fonts);
+  const resized = ownSize.width !== reference.width || ownSize.height !== reference.height;
+  const candidate = resized ? await decodeImage(encoded, format, fonts, reference) : ownSize;
+
+  return { comparison: comparePixels(reference, candidate), resized };
+}
+
+/**
+ * Heatmap over a dimmed grayscale of the reference: differing pixels run from red (just over
+ * the threshold) to yellow (maximal difference).
+ */
+export async function writeHeatmap(path: string, reference: RasterImage, magnitude: Uint8Array): Promise<void> {
+  const canvas = createCanvas(reference.width, reference.height);
+  const ctx = canvas.getContext("2d");
+  const image = ctx.createImageData(reference.width, reference.height);
+
+  for (let index = 0; index < magnitude.length; index += 1) {
+    const offset = index * 4;
+    const value = magnitude[index]!;
+
+    if (value > DIFF_PIXEL_THRESHOLD) {
+      image.data[offset] = 255;
+      image.data[offset + 1] = value;
+      image.data[offset + 2] = 0;
+    } else {
+      const gray =
+        0.299 * reference.data[offset]! + 0.587 * reference.data[offset + 1]! + 0.114 * reference.data[offset + 2]!;
+      image.data[offset] = image.data[offset + 1] = image.data[offset + 2] = Math.round(gray * 0.3);
+    }
+
+    image.data[offset + 3] = 255;
+  }
+
+  ctx.putImageData(image, 0, 0);
+  await writeFile(path, await canvas.encode("png"));
+}
+
+/**
+ * Compares every saved image with its reference image of the same task; images whose
+ * reference did not produce one (skipped or failed) are left out.
+ */
+export async function runVisualDiff(
+  images: VisualDiffImage[],
+  fonts: BenchFont[],
+  outputDir: string,
+  fileName: (task: BenchTaskName, label: string) => string,
+): Promise<VisualDiffResult[]> {
+  const results: VisualDiffResult[] = [];
+
+  for (const image of images) {
+    const reference = images.find(
+      (entry) => entry.task === image.task && entry.renderer === image.reference,
+    );
+
+    if (!reference || reference === image) {
+      continue;
+    }
+
+    // One pair at a time: 4K RGBA buffers are large enough to matter on small machines.
+    const referenceRaster = await decodeImage(await readFile(reference.path), reference.format, fonts);
+    const { comparison, resized } = await compareWithRaster(
+      referenceRaster,
+      await readFile(image.path),
+      image.format,
+      fonts,
+    );
+    const heatmapPath = join(outputDir, fileName(image.task, image.renderer));
+
+    await mkdir(outputDir, { recursive: true });
+    await writeHeatmap(heatmapPath, referenceRaster, comparison.magnitude);
+    results.push({
+      renderer: image.renderer,
+      reference: reference.renderer,
+      task: image.task,
+      psnrDb: comparison.psnrDb,
+      ssim: comparison.ssim,
+      differingPixels: round(comparison.differingPixels, 6),
+      resized,
+      heatmapPath,
+    });
+  }
+
+  return results;
+}
+
+function formatPsnr(psnrDb: number | null): string {
+  return psnrDb === null ? "∞" : psnrDb.toFixed(2);
+}
+
+export function buildVisualDiffMarkdown(results: VisualDiffResult[]): string[] {
+  if (results.length === 0) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  lines.push("## Visual Diff");
+  lines.push("");
+  lines.push(
+    `- Reference: ${[...new Set(results.map((result) => result.reference))].join(", ")}. Outputs are decoded to RGBA (SVG rasterized by resvg) and composited onto white.`,
+  );
+  lines.push(
+    `- PSNR is over RGB (∞ = identical); SSIM is the mean over ${SSIM_WINDOW}×${SSIM_WINDOW} luminance windows; a pixel differs when any channel is off by more than ${DIFF_PIXEL_THRESHOLD}/255.`,
+  );
+  lines.push(
+    `- ⚠ marks SSIM below ${SSIM_MISMATCH_THRESHOLD}: that renderer drew something visibly different, so its latency is not comparable. Heatmaps show differing pixels in red→yellow over the dimmed reference.`,
+  );
+  lines.push("");
+
+  for (const task of [...new Set(results.map((result) => result.task))]) {
+    lines.push(`### ${task}: visual diff`);
+    lines.push("");
+    lines.push("| Renderer | Reference | PSNR (dB) | SSIM | Differing pixels | Heatmap |");
+    lines.push("|---|---|---:|---:|---:|---|");
+
+    const rows = results
+      .filter((result) => result.task === task)
+      .sort((left, right) => right.ssim - left.ssim);
+
+    for (const row of rows) {
+      const flag = row.ssim < SSIM_MISMATCH_THRESHOLD ? " ⚠" : "";
+      const resized = row.resized ? " (resized)" : "";
+      lines.push(
+        `| ${row.renderer}${flag}${resized} | ${row.reference} | ${formatPsnr(row.psnrDb)} | ${row.ssim.toFixed(4)} | ${round(row.differingPixels * 100, 2)}% | ${row.heatmapPath} |`,
+      );
+    }
+
+    lines.push("");
+  }
+
+  return lines;
+}
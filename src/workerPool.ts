@@ -0,0 +1,322 @@
+import { Worker } from "node:worker_threads";
+import type {
+  BenchContext,
+  BenchContextBase,
+  BenchRenderer,
+  BenchTaskName,
+  OutputSize,
+  RendererPrepareDetails,
+  TaskOutput,
+} from "./types.js";
+import { rendererLoaders } from "./renderers/loaders.js";
+import { UnsupportedTaskError } from "./utils.js";
+
+export interface PoolWorkerData {
+  renderer: string;
+  base: BenchContextBase;
+  shared: Record<keyof BenchContext["buffers"], SharedArrayBuffer>;
+}
+
+export interface PoolRequest {
+  id: number;
+  task: BenchTaskName;
+  /** Output size of this render; workers start with the size of the preparing context. */
+  size: OutputSize;
+}
+
+export type PoolResponse =
+  | {
+      type: "ready";
+      prepareMs: number;
+    }
+  | {
+      type: "output";
+      id: number;
+      output: TaskOutput;
+      renderMs: number;
+    }
+  | {
+      type: "error";
+      id: number | null;
+      message: string;
+      unsupportedDetail: string | null;
+    };
+
+interface PoolSlot {
+  worker: Worker;
+  busy: boolean;
+  /** Set once the worker errored or exited; the slot has left the pool. */
+  lost: boolean;
+  pending: {
+    id: number;
+    task: BenchTaskName;
+    startedAt: number;
+    resolve: (output: TaskOutput) => void;
+    reject: (error: Error) => void;
+  } | null;
+}
+
+const workerEntryUrl = new URL("./poolWorker.js", import.meta.url);
+
+export function poolRendererName(renderer: string, size: number): string {
+  return `${renderer} [pool×${size}]`;
+}
+
+function toShared(buffer: Buffer): SharedArrayBuffer {
+  const shared = new SharedArrayBuffer(buffer.byteLength);
+  new Uint8Array(shared).set(buffer);
+  return shared;
+}
+
+/**
+ * Starts a worker and waits for it to report ready. A worker that errors or exits before
+ * then rejects the startup; one that does so later is handed to `onLost`, which may be called
+ * for both events of the same failure.
+ */
+function startWorker(
+  data: PoolWorkerData,
+  onLost: (slot: PoolSlot, error: Error) => void,
+): Promise<{ slot: PoolSlot; prepareMs: number }> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(workerEntryUrl, { workerData: data });
+    const slot: PoolSlot = { worker, busy: false, lost: false, pending: null };
+    let ready = false;
+
+    const fail = (error: Error) => (ready ? onLost(slot, error) : reject(error));
+    worker.on("error", fail);
+    // Native crashes and `process.exit` in the worker end it without an `error` event.
+    worker.on("exit", (code) => fail(new Error(`${data.renderer} worker exited with code ${code}`)));
+    worker.once("message", (message: PoolResponse) => {
+      if (message.type !== "ready") {
+        void worker.terminate();
+        reject(new Error(`${data.renderer} worker failed to start: ${message.type === "error" ? message.message : message.type}`));
+        return;
+      }
+
+      ready = true;
+      worker.on("message", (response: PoolResponse) => settle(slot, response));
+      resolve({ slot, prepareMs: message.prepareMs });
+    });
+  });
+}
+
+function settle(slot: PoolSlot, response: PoolResponse): void {
+  const pending = slot.pending;
+
+  if (!pending || response.type === "ready" || response.id !== pending.id) {
+    return;
+  }
+
+  slot.pending = null;
+
+  if (response.type === "error") {
+    pending.reject(
+      response.unsupportedDetail === null
+        ? new Error(response.message)
+        : new UnsupportedTaskError(pending.task, response.unsupportedDetail),
+    );
+    return;
+  }
+
+  const roundTripMs = performance.now() - pending.startedAt;
+  const { output } = response;
+  const overheadMs = Math.max(0, roundTripMs - response.renderMs);
+
+  if (output.kind === "image") {
+    // Structured clone drops the Buffer prototype; rewrap the transferred memory.
+    const view = output.buffer as Uint8Array;
+    pending.resolve({ ...output, buffer: Buffer.from(view.buffer, view.byteOffset, view.byteLength), overheadMs });
+    return;
+  }
+
+  pending.resolve({ ...output, overheadMs });
+}
+
+/**
+ * Wraps a renderer so every `run` is executed by one of `size` worker threads. Fixture
+ * buffers are copied once into shared memory; image outputs are transferred back. Each
+ * worker loads the renderer module and registers fonts on its own, which is reported as
+ * per-worker prepare cost.
+ */
+export function createWorkerPoolRenderer(rendererName: string, size: number): BenchRenderer {
+  let slots: PoolSlot[] = [];
+  let startup: Promise<RendererPrepareDetails> | null = null;
+  let data: PoolWorkerData | null = null;
+  /** Bumped by `dispose`, so replacements started before it are not added to a later pool. */
+  let generation = 0;
+  let replacements = 0;
+  let nextId = 0;
+  const waiting: Array<() => void> = [];
+
+  function wakeAll(): void {
+    for (const resolve of waiting.splice(0)) {
+      resolve();
+    }
+  }
+
+  /** Drops a dead worker, fails its job and starts a replacement so the pool keeps its size. */
+  function lose(slot: PoolSlot, error: Error): void {
+    if (slot.lost) {
+      return;
+    }
+
+    slot.lost = true;
+    slots = slots.filter((entry) => entry !== slot);
+    slot.pending?.reject(error);
+    slot.pending = null;
+
+    if (data) {
+      const startedIn = generation;
+      replacements += 1;
+      startWorker(data, lose)
+        .then(
+          ({ slot: replacement }) => {
+            if (startedIn === generation) {
+              slots.push(replacement);
+            } else {
+              replacement.lost = true;
+              void replacement.worker.terminate();
+            }
+          },
+          // A worker that cannot start again leaves the pool one smaller.
+          () => undefined,
+        )
+        .finally(() => {
+          replacements -= 1;
+          wakeAll();
+        });
+    }
+
+    wakeAll();
+  }
+
+  function start(context: BenchContext): Promise<RendererPrepareDetails> {
+    if (!startup) {
+      const workerData: PoolWorkerData = {
+        renderer: rendererName,
+        base: {
+          width: context.width,
+          height: context.height,
+          dpr: context.dpr,
+          fontFamily: context.fontFamily,
+          fonts: context.fonts,
+          fontMetrics: context.fontMetrics,
+          textSamples: context.textSamples,
+          scenePaths: context.scenePaths,
+          webpQuality: context.webpQuality,
+        },
+        shared: {
+          background: toShared(context.buffers.background),
+          avatar: toShared(context.buffers.avatar),
+          badge: toShared(context.buffers.badge),
+        },
+      };
+
+      data = workerData;
+      startup = Promise.allSettled(Array.from({ length: size }, () => startWorker(workerData, lose))).then(
+        async (results) => {
+          const started = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+          const failure = results.find((result) => result.status === "rejected");
+
+          // One worker failing to start fails the pool; the ones that did start are stopped.
+          if (failure) {
+            for (const { slot } of started) {
+              slot.lost = true;
+            }
+
+            await Promise.all(started.map(({ slot }) => slot.worker.terminate()));
+            throw failure.reason;
+          }
+
+          slots = started.map((entry) => entry.slot).filter((slot) => !slot.lost);
+          return { workerPrepareMs: started.map((entry) => entry.prepareMs) };
+        },
+      );
+    }
+
+    return startup;
+  }
+
+  async function acquire(): Promise<PoolSlot> {
+    for (;;) {
+      const idle = slots.find((slot) => !slot.busy);
+
+      if (idle) {
+        idle.busy = true;
+        return idle;
+      }
+
+      if (slots.length === 0 && replacements === 0) {
+        throw new Error(`Every ${rendererName} pool worker has exited`);
+      }
+
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+  }
+
+  function release(slot: PoolSlot): void {
+    slot.busy = false;
+    waiting.shift()?.();
+  }
+
+  return {
+    name: poolRendererName(rendererName, size),
+    prepare: start,
+    run: async (context, task) => {
+      await start(context);
+      const slot = await acquire();
+
+      try {
+        return await new Promise<TaskOutput>((resolve, reject) => {
+          const id = nextId;
+          nextId += 1;
+          slot.pending = { id, task, startedAt: performance.now(), resolve, reject };
+          slot.worker.postMessage({
+            id,
+            task,
+            size: { width: context.width, height: context.height, dpr: context.dpr },
+          } satisfies PoolRequest);
+        });
+      } finally {
+        release(slot);
+      }
+    },
+    dispose: async () => {
+      const stopping = slots;
+      generation += 1;
+      slots = [];
+      startup = null;
+      data = null;
+
+      for (const slot of stopping) {
+        slot.lost = true;
+      }
+
+      await Promise.all(stopping.map((slot) => slot.worker.terminate()));
+    },
+  };
+}
+
+/** A renderer known by name; its library is only imported once `load` is called. */
+export interface RendererEntry {
+  name: string;
+  load: () => Promise<BenchRenderer>;
+}
+
+/**
+ * Every renderer, then a worker-pool variant of each for every requested pool size. Pool
+ * variants import their library in the workers only.
+ */
+export function rendererEntries(poolSizes: number[]): RendererEntry[] {
+  const names = Object.keys(rendererLoaders);
+
+  return [
+    ...names.map((name) => ({ name, load: rendererLoaders[name]! })),
+    ...poolSizes.flatMap((size) =>
+      names.map((name) => ({
+        name: poolRendererName(name, size),
+        load: async () => createWorkerPoolRenderer(name, size),
+      })),
+    ),
+  ];
+}